@@ -0,0 +1,57 @@
+import { NodeType } from '@/types/Node';
+import { MinHeap } from '@/lib/minHeap';
+import { HeuristicType } from './heuristics';
+import { SearchGenerator } from './events';
+import { Topology, getNodesInShortestPathOrder } from './topology';
+
+export function* astar(
+  topology: Topology,
+  startNode: NodeType,
+  endNode: NodeType,
+  heuristic: HeuristicType = 'manhattan',
+  heuristicWeight = 1
+): SearchGenerator {
+  // f = g + w * h. Ties on f are broken towards the larger g, i.e. the node
+  // closer to the target. Outdated entries are skipped once the node is closed.
+  const openNodes = new MinHeap<{ node: NodeType; f: number; g: number }>(
+    (a, b) => a.f - b.f || b.g - a.g
+  );
+  const push = (node: NodeType) =>
+    openNodes.push({
+      node,
+      f: node.distance + heuristicWeight * topology.heuristic(heuristic, node, endNode),
+      g: node.distance,
+    });
+
+  startNode.distance = 0;
+  push(startNode);
+  yield { type: 'enqueue', node: startNode };
+
+  while (!openNodes.isEmpty()) {
+    const { node: currentNode } = openNodes.pop()!;
+
+    if (currentNode.isVisited) continue;
+
+    currentNode.isVisited = true;
+    yield { type: 'visit', node: currentNode };
+
+    if (currentNode === endNode) {
+      yield { type: 'path-found', path: getNodesInShortestPathOrder(endNode) };
+      return;
+    }
+
+    const neighbors = topology.neighbors(currentNode).filter((neighbor) => !neighbor.isVisited);
+    for (const neighbor of neighbors) {
+      const newDistance = currentNode.distance + topology.edgeCost(currentNode, neighbor);
+
+      if (newDistance < neighbor.distance) {
+        const decreaseKey = neighbor.distance !== Infinity;
+        neighbor.distance = newDistance;
+        neighbor.previousNode = currentNode;
+        push(neighbor);
+        yield { type: 'relax', from: currentNode, to: neighbor, distance: newDistance, decreaseKey };
+        if (!decreaseKey) yield { type: 'enqueue', node: neighbor };
+      }
+    }
+  }
+}
@@ -1,56 +1,37 @@
 import { NodeType } from '@/types/Node';
+import { Queue } from '@/lib/queue';
+import { SearchGenerator } from './events';
+import { Topology, getNodesInShortestPathOrder } from './topology';
 
-export const bfs = (
-  grid: NodeType[][],
+export function* bfs(
+  topology: Topology,
   startNode: NodeType,
   endNode: NodeType
-): NodeType[] => {
-  const visitedNodesInOrder: NodeType[] = [];
-  const queue: NodeType[] = [];
+): SearchGenerator {
+  const queue = new Queue<NodeType>();
 
   startNode.isVisited = true;
   startNode.distance = 0;
-  queue.push(startNode);
+  queue.enqueue(startNode);
+  yield { type: 'enqueue', node: startNode };
 
-  while (queue.length > 0) {
-    const currentNode = queue.shift()!;
-    visitedNodesInOrder.push(currentNode);
+  while (!queue.isEmpty()) {
+    const currentNode = queue.dequeue()!;
+    yield { type: 'visit', node: currentNode };
 
-    if (currentNode === endNode) return visitedNodesInOrder;
+    if (currentNode === endNode) {
+      yield { type: 'path-found', path: getNodesInShortestPathOrder(endNode) };
+      return;
+    }
 
-    const neighbors = getUnvisitedNeighbors(currentNode, grid);
+    const neighbors = topology.neighbors(currentNode).filter((neighbor) => !neighbor.isVisited);
     
     for (const neighbor of neighbors) {
       neighbor.isVisited = true;
       neighbor.distance = currentNode.distance + 1;
       neighbor.previousNode = currentNode;
-      queue.push(neighbor);
+      queue.enqueue(neighbor);
+      yield { type: 'enqueue', node: neighbor };
     }
   }
-
-  return visitedNodesInOrder;
-};
-
-const getUnvisitedNeighbors = (node: NodeType, grid: NodeType[][]): NodeType[] => {
-  const neighbors: NodeType[] = [];
-  const { row, col } = node;
-
-  if (row > 0) neighbors.push(grid[row - 1][col]);
-  if (row < grid.length - 1) neighbors.push(grid[row + 1][col]);
-  if (col > 0) neighbors.push(grid[row][col - 1]);
-  if (col < grid[0].length - 1) neighbors.push(grid[row][col + 1]);
-
-  return neighbors.filter((neighbor) => !neighbor.isVisited && !neighbor.isWall);
-};
-
-export const getNodesInShortestPathOrder = (endNode: NodeType): NodeType[] => {
-  const nodesInShortestPathOrder: NodeType[] = [];
-  let currentNode: NodeType | null = endNode;
-
-  while (currentNode !== null) {
-    nodesInShortestPathOrder.unshift(currentNode);
-    currentNode = currentNode.previousNode;
-  }
-
-  return nodesInShortestPathOrder;
-};
+}
@@ -0,0 +1,198 @@
+import { NodeType } from '@/types/Node';
+import { MinHeap } from '@/lib/minHeap';
+import { SearchGenerator, SearchSide } from './events';
+import { Topology } from './topology';
+
+// Bidirectional BFS. Frontiers are expanded one full level at a time, always
+// growing the smaller one, so the first meeting level yields a shortest path.
+export function* bidirectionalBfs(
+  topology: Topology,
+  startNode: NodeType,
+  endNode: NodeType
+): SearchGenerator {
+  // The start side uses previousNode; the end side keeps its chain here
+  const nextNode = new Map<NodeType, NodeType | null>();
+  const distFromStart = new Map<NodeType, number>([[startNode, 0]]);
+  const distFromEnd = new Map<NodeType, number>([[endNode, 0]]);
+
+  startNode.isVisited = true;
+  startNode.distance = 0;
+  endNode.isVisited = true;
+  nextNode.set(endNode, null);
+  yield { type: 'enqueue', node: startNode, side: 'start' };
+  yield { type: 'enqueue', node: endNode, side: 'end' };
+
+  if (startNode === endNode) {
+    yield { type: 'meet', node: startNode };
+    yield { type: 'path-found', path: [startNode] };
+    return;
+  }
+
+  let startFrontier: NodeType[] = [startNode];
+  let endFrontier: NodeType[] = [endNode];
+
+  while (startFrontier.length > 0 && endFrontier.length > 0) {
+    const side: SearchSide = startFrontier.length <= endFrontier.length ? 'start' : 'end';
+    const frontier = side === 'start' ? startFrontier : endFrontier;
+    const ownDist = side === 'start' ? distFromStart : distFromEnd;
+    const otherDist = side === 'start' ? distFromEnd : distFromStart;
+    const nextFrontier: NodeType[] = [];
+    let meetingNode: NodeType | null = null;
+    let bestLength = Infinity;
+
+    for (const currentNode of frontier) {
+      yield { type: 'visit', node: currentNode, side };
+
+      for (const neighbor of topology.neighbors(currentNode)) {
+        if (ownDist.has(neighbor)) continue;
+        const distance = ownDist.get(currentNode)! + 1;
+
+        if (otherDist.has(neighbor)) {
+          // Link the meeting node to this side's chain, keeping the other side's intact
+          const length = distance + otherDist.get(neighbor)!;
+          if (length < bestLength) {
+            bestLength = length;
+            meetingNode = neighbor;
+            if (side === 'start') neighbor.previousNode = currentNode;
+            else nextNode.set(neighbor, currentNode);
+          }
+          continue;
+        }
+
+        ownDist.set(neighbor, distance);
+        neighbor.isVisited = true;
+        if (side === 'start') {
+          neighbor.previousNode = currentNode;
+          neighbor.distance = distance;
+        } else {
+          nextNode.set(neighbor, currentNode);
+        }
+        nextFrontier.push(neighbor);
+        yield { type: 'enqueue', node: neighbor, side };
+      }
+    }
+
+    if (meetingNode) {
+      yield { type: 'meet', node: meetingNode };
+      yield { type: 'path-found', path: stitchPath(meetingNode, nextNode) };
+      return;
+    }
+
+    if (side === 'start') startFrontier = nextFrontier;
+    else endFrontier = nextFrontier;
+  }
+}
+
+// Bidirectional Dijkstra. Entering a cell costs its weight, so the search from
+// the end charges the cost of the cell it leaves. It stops once the two
+// smallest frontier distances together cannot beat the best meeting found.
+export function* bidirectionalDijkstra(
+  topology: Topology,
+  startNode: NodeType,
+  endNode: NodeType
+): SearchGenerator {
+  const nextNode = new Map<NodeType, NodeType | null>();
+  const distFromStart = new Map<NodeType, number>([[startNode, 0]]);
+  const distFromEnd = new Map<NodeType, number>([[endNode, 0]]);
+  const settledFromStart = new Set<NodeType>();
+  const settledFromEnd = new Set<NodeType>();
+
+  startNode.distance = 0;
+  nextNode.set(endNode, null);
+
+  // Lazy deletion: entries for nodes settled since they were queued are discarded
+  const compare = (a: QueueEntry, b: QueueEntry) => a.distance - b.distance;
+  const startQueue = new MinHeap<QueueEntry>(compare);
+  const endQueue = new MinHeap<QueueEntry>(compare);
+  startQueue.push({ node: startNode, distance: 0 });
+  endQueue.push({ node: endNode, distance: 0 });
+  yield { type: 'enqueue', node: startNode, side: 'start' };
+  yield { type: 'enqueue', node: endNode, side: 'end' };
+  let meetingNode: NodeType | null = startNode === endNode ? startNode : null;
+  let bestLength = startNode === endNode ? 0 : Infinity;
+
+  const considerMeeting = (node: NodeType) => {
+    if (!distFromStart.has(node) || !distFromEnd.has(node)) return;
+    const length = distFromStart.get(node)! + distFromEnd.get(node)!;
+    if (length < bestLength) {
+      bestLength = length;
+      meetingNode = node;
+    }
+  };
+
+  while (true) {
+    discardSettled(startQueue, settledFromStart);
+    discardSettled(endQueue, settledFromEnd);
+    if (startQueue.isEmpty() || endQueue.isEmpty()) break;
+    if (startQueue.peek()!.distance + endQueue.peek()!.distance >= bestLength) break;
+
+    const side: SearchSide = startQueue.size <= endQueue.size ? 'start' : 'end';
+    const queue = side === 'start' ? startQueue : endQueue;
+    const ownDist = side === 'start' ? distFromStart : distFromEnd;
+    const settled = side === 'start' ? settledFromStart : settledFromEnd;
+
+    const { node: currentNode } = queue.pop()!;
+    settled.add(currentNode);
+    currentNode.isVisited = true;
+    yield { type: 'visit', node: currentNode, side };
+
+    for (const neighbor of topology.neighbors(currentNode)) {
+      if (settled.has(neighbor)) continue;
+      // The end side walks edges backwards, so it pays for neighbor -> currentNode
+      const edgeCost =
+        side === 'start' ? topology.edgeCost(currentNode, neighbor) : topology.edgeCost(neighbor, currentNode);
+      const newDistance = ownDist.get(currentNode)! + edgeCost;
+
+      if (newDistance < (ownDist.get(neighbor) ?? Infinity)) {
+        const decreaseKey = ownDist.has(neighbor);
+        ownDist.set(neighbor, newDistance);
+        if (side === 'start') {
+          neighbor.distance = newDistance;
+          neighbor.previousNode = currentNode;
+        } else {
+          nextNode.set(neighbor, currentNode);
+        }
+        queue.push({ node: neighbor, distance: newDistance });
+        yield { type: 'relax', from: currentNode, to: neighbor, distance: newDistance, decreaseKey, side };
+        if (!decreaseKey) yield { type: 'enqueue', node: neighbor, side };
+        considerMeeting(neighbor);
+      }
+    }
+  }
+
+  if (!meetingNode) return;
+
+  yield { type: 'meet', node: meetingNode };
+  yield { type: 'path-found', path: stitchPath(meetingNode, nextNode) };
+}
+
+interface QueueEntry {
+  node: NodeType;
+  distance: number;
+}
+
+const discardSettled = (queue: MinHeap<QueueEntry>, settled: Set<NodeType>) => {
+  while (!queue.isEmpty() && settled.has(queue.peek()!.node)) queue.pop();
+};
+
+// Joins the start-side previousNode chain with the end-side chain at the meeting node
+const stitchPath = (
+  meetingNode: NodeType,
+  nextNode: Map<NodeType, NodeType | null>
+): NodeType[] => {
+  const path: NodeType[] = [];
+  let currentNode: NodeType | null = meetingNode;
+
+  while (currentNode !== null) {
+    path.unshift(currentNode);
+    currentNode = currentNode.previousNode;
+  }
+
+  currentNode = nextNode.get(meetingNode) ?? null;
+  while (currentNode !== null) {
+    path.push(currentNode);
+    currentNode = nextNode.get(currentNode) ?? null;
+  }
+
+  return path;
+};
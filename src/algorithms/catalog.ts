@@ -0,0 +1,2 @@
+// Algorithms that ignore cell weights, so the Weighted/Unweighted choice is fixed for them
+export const unweightedAlgorithms = ['bfs', 'dfs', 'dfs-recursive', 'bidirectional-bfs'];
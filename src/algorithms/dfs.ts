@@ -0,0 +1,78 @@
+import { NodeType } from '@/types/Node';
+import { SearchGenerator } from './events';
+import { Topology, getNodesInShortestPathOrder } from './topology';
+
+// Iterative DFS with an explicit stack. Each entry remembers the node that
+// pushed it, so previousNode is fixed only when the node is actually expanded.
+export function* dfs(
+  topology: Topology,
+  startNode: NodeType,
+  endNode: NodeType
+): SearchGenerator {
+  const stack: { node: NodeType; parent: NodeType | null }[] = [];
+
+  startNode.distance = 0;
+  stack.push({ node: startNode, parent: null });
+  yield { type: 'enqueue', node: startNode };
+
+  while (stack.length > 0) {
+    const { node: currentNode, parent } = stack.pop()!;
+    if (currentNode.isVisited) continue;
+
+    currentNode.isVisited = true;
+    if (parent) {
+      currentNode.previousNode = parent;
+      currentNode.distance = parent.distance + 1;
+    }
+    yield { type: 'visit', node: currentNode };
+
+    if (currentNode === endNode) {
+      yield { type: 'path-found', path: getNodesInShortestPathOrder(endNode) };
+      return;
+    }
+
+    // Push in reverse so neighbors are expanded in the same order as dfsRecursive
+    const neighbors = topology.neighbors(currentNode).filter((neighbor) => !neighbor.isVisited);
+    for (let i = neighbors.length - 1; i >= 0; i--) {
+      stack.push({ node: neighbors[i], parent: currentNode });
+      yield { type: 'enqueue', node: neighbors[i] };
+    }
+  }
+}
+
+// Recursive DFS. Besides visits it reports every call entering and returning,
+// which lets the grid show the frames that are currently on the call stack.
+export function* dfsRecursive(
+  topology: Topology,
+  startNode: NodeType,
+  endNode: NodeType
+): SearchGenerator {
+  let found = false;
+
+  function* visit(node: NodeType, depth: number): SearchGenerator {
+    node.isVisited = true;
+    yield { type: 'visit', node };
+    yield { type: 'call-enter', node, depth };
+
+    if (node === endNode) {
+      found = true;
+      return;
+    }
+
+    for (const neighbor of topology.neighbors(node)) {
+      // An earlier sibling's subtree may have reached this neighbor already
+      if (neighbor.isVisited) continue;
+      neighbor.previousNode = node;
+      neighbor.distance = node.distance + 1;
+      yield* visit(neighbor, depth + 1);
+      if (found) return;
+    }
+
+    yield { type: 'call-return', node, depth };
+  }
+
+  startNode.distance = 0;
+  yield* visit(startNode, 0);
+
+  if (found) yield { type: 'path-found', path: getNodesInShortestPathOrder(endNode) };
+}
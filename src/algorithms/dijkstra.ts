@@ -1,80 +1,58 @@
 import { NodeType } from '@/types/Node';
+import { MinHeap } from '@/lib/minHeap';
+import { SearchGenerator } from './events';
+import { Topology, getNodesInShortestPathOrder } from './topology';
 
-export const dijkstra = (
-  grid: NodeType[][],
+interface QueueEntry {
+  node: NodeType;
+  distance: number;
+}
+
+export function* dijkstra(
+  topology: Topology,
   startNode: NodeType,
   endNode: NodeType
-): NodeType[] => {
-  const visitedNodesInOrder: NodeType[] = [];
+): SearchGenerator {
+  // Entries snapshot the distance they were queued with; outdated ones are skipped
+  const unvisitedNodes = new MinHeap<QueueEntry>((a, b) => a.distance - b.distance);
+
   startNode.distance = 0;
-  
-  const unvisitedNodes = getAllNodes(grid);
+  unvisitedNodes.push({ node: startNode, distance: 0 });
+  yield { type: 'enqueue', node: startNode };
 
-  while (unvisitedNodes.length !== 0) {
-    sortNodesByDistance(unvisitedNodes);
-    const closestNode = unvisitedNodes.shift();
+  while (!unvisitedNodes.isEmpty()) {
+    const { node: closestNode } = unvisitedNodes.pop()!;
 
-    if (!closestNode || closestNode.isWall) continue;
-    if (closestNode.distance === Infinity) return visitedNodesInOrder;
+    if (closestNode.isVisited) continue;
 
     closestNode.isVisited = true;
-    visitedNodesInOrder.push(closestNode);
+    yield { type: 'visit', node: closestNode };
 
-    if (closestNode === endNode) return visitedNodesInOrder;
+    if (closestNode === endNode) {
+      yield { type: 'path-found', path: getNodesInShortestPathOrder(endNode) };
+      return;
+    }
 
-    updateUnvisitedNeighbors(closestNode, grid);
+    yield* updateUnvisitedNeighbors(closestNode, topology, unvisitedNodes);
   }
-
-  return visitedNodesInOrder;
-};
-
-const sortNodesByDistance = (unvisitedNodes: NodeType[]) => {
-  unvisitedNodes.sort((a, b) => a.distance - b.distance);
-};
-
-const updateUnvisitedNeighbors = (node: NodeType, grid: NodeType[][]) => {
-  const neighbors = getUnvisitedNeighbors(node, grid);
+}
+
+function* updateUnvisitedNeighbors(
+  node: NodeType,
+  topology: Topology,
+  unvisitedNodes: MinHeap<QueueEntry>
+): SearchGenerator {
+  const neighbors = topology.neighbors(node).filter((neighbor) => !neighbor.isVisited);
   for (const neighbor of neighbors) {
-    const weightValue = neighbor.isWeight ? (neighbor.weight || 5) : 1;
-    const newDistance = node.distance + weightValue;
+    const newDistance = node.distance + topology.edgeCost(node, neighbor);
     
     if (newDistance < neighbor.distance) {
+      const decreaseKey = neighbor.distance !== Infinity;
       neighbor.distance = newDistance;
       neighbor.previousNode = node;
+      unvisitedNodes.push({ node: neighbor, distance: newDistance });
+      yield { type: 'relax', from: node, to: neighbor, distance: newDistance, decreaseKey };
+      if (!decreaseKey) yield { type: 'enqueue', node: neighbor };
     }
   }
-};
-
-const getUnvisitedNeighbors = (node: NodeType, grid: NodeType[][]): NodeType[] => {
-  const neighbors: NodeType[] = [];
-  const { row, col } = node;
-
-  if (row > 0) neighbors.push(grid[row - 1][col]);
-  if (row < grid.length - 1) neighbors.push(grid[row + 1][col]);
-  if (col > 0) neighbors.push(grid[row][col - 1]);
-  if (col < grid[0].length - 1) neighbors.push(grid[row][col + 1]);
-
-  return neighbors.filter((neighbor) => !neighbor.isVisited);
-};
-
-const getAllNodes = (grid: NodeType[][]): NodeType[] => {
-  const nodes: NodeType[] = [];
-  for (const row of grid) {
-    for (const node of row) {
-      nodes.push(node);
-    }
-  }
-  return nodes;
-};
-
-export const getNodesInShortestPathOrder = (endNode: NodeType): NodeType[] => {
-  const nodesInShortestPathOrder: NodeType[] = [];
-  let currentNode: NodeType | null = endNode;
-
-  while (currentNode !== null) {
-    nodesInShortestPathOrder.unshift(currentNode);
-    currentNode = currentNode.previousNode || null;
-  }
-
-  return nodesInShortestPathOrder;
-};
+}
@@ -0,0 +1,22 @@
+import { NodeType } from '@/types/Node';
+
+export type SearchSide = 'start' | 'end';
+
+// Steps emitted by every search generator, in the order they happen.
+// `side` is only set by bidirectional searches.
+export type SearchEvent =
+  // node joins the frontier (queue, stack or priority queue)
+  | { type: 'enqueue'; node: NodeType; side?: SearchSide }
+  // node leaves the frontier and joins the closed set
+  | { type: 'visit'; node: NodeType; side?: SearchSide }
+  // edge from -> to gave `to` a better tentative distance; decreaseKey is set
+  // when `to` was already on the frontier with a worse one
+  | { type: 'relax'; from: NodeType; to: NodeType; distance: number; decreaseKey: boolean; side?: SearchSide }
+  // recursive DFS entering and returning from a call
+  | { type: 'call-enter'; node: NodeType; depth: number }
+  | { type: 'call-return'; node: NodeType; depth: number }
+  // the two frontiers of a bidirectional search joined here
+  | { type: 'meet'; node: NodeType }
+  | { type: 'path-found'; path: NodeType[] };
+
+export type SearchGenerator = Generator<SearchEvent, void, undefined>;
@@ -0,0 +1,45 @@
+import { NodeType } from '@/types/Node';
+import { MinHeap } from '@/lib/minHeap';
+import { HeuristicType } from './heuristics';
+import { SearchGenerator } from './events';
+import { Topology, getNodesInShortestPathOrder } from './topology';
+
+// Greedy best-first search: the frontier is ordered by h(n) alone, so the
+// accumulated cost of a route (including weighted cells) is never considered.
+export function* greedyBestFirst(
+  topology: Topology,
+  startNode: NodeType,
+  endNode: NodeType,
+  heuristic: HeuristicType = 'manhattan'
+): SearchGenerator {
+  const hScore = new Map<NodeType, number>();
+  const openNodes = new MinHeap<NodeType>((a, b) => hScore.get(a)! - hScore.get(b)!);
+
+  startNode.distance = 0;
+  hScore.set(startNode, topology.heuristic(heuristic, startNode, endNode));
+  openNodes.push(startNode);
+  yield { type: 'enqueue', node: startNode };
+
+  while (!openNodes.isEmpty()) {
+    const currentNode = openNodes.pop()!;
+
+    currentNode.isVisited = true;
+    yield { type: 'visit', node: currentNode };
+
+    if (currentNode === endNode) {
+      yield { type: 'path-found', path: getNodesInShortestPathOrder(endNode) };
+      return;
+    }
+
+    // A node is discovered once it has an h score, so each node enters the frontier once
+    const neighbors = topology.neighbors(currentNode).filter((neighbor) => !hScore.has(neighbor));
+    for (const neighbor of neighbors) {
+      // Cost is only tracked so the final route can be compared with Dijkstra/A*
+      neighbor.distance = currentNode.distance + topology.edgeCost(currentNode, neighbor);
+      neighbor.previousNode = currentNode;
+      hScore.set(neighbor, topology.heuristic(heuristic, neighbor, endNode));
+      openNodes.push(neighbor);
+      yield { type: 'enqueue', node: neighbor };
+    }
+  }
+}
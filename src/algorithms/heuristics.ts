@@ -0,0 +1,86 @@
+import { NodeType } from '@/types/Node';
+import { MovementModel } from './movement';
+
+export type HeuristicType = 'manhattan' | 'euclidean' | 'octile' | 'chebyshev';
+
+export const heuristicLabels: Record<HeuristicType, string> = {
+  manhattan: 'Manhattan',
+  euclidean: 'Euclidean',
+  octile: 'Octile',
+  chebyshev: 'Chebyshev',
+};
+
+// Manhattan counts a diagonal or hex step as two, so it only stays admissible
+// with 4-way movement
+export const isAdmissible = (type: HeuristicType, model: MovementModel) => type !== 'manhattan' || model === '4-way';
+
+// Exact on an open board for each model; picked when a model switch would
+// leave an overestimating heuristic selected
+export const defaultHeuristics: Record<MovementModel, HeuristicType> = {
+  '4-way': 'manhattan',
+  '8-way': 'octile',
+  hex: 'chebyshev',
+};
+
+// Estimated cost from a node to the target. Every orthogonal step costs at
+// least 1 and every diagonal one at least √2, so with a weight multiplier of 1
+// all four are admissible for 4-way movement. With 8-way movement Manhattan
+// overestimates diagonal routes; the other three stay admissible.
+export const heuristicDistance = (
+  type: HeuristicType,
+  node: NodeType,
+  target: NodeType
+): number => {
+  const dx = Math.abs(node.col - target.col);
+  const dy = Math.abs(node.row - target.row);
+
+  switch (type) {
+    case 'euclidean':
+      return Math.sqrt(dx * dx + dy * dy);
+    case 'octile':
+      return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+    case 'chebyshev':
+      return Math.max(dx, dy);
+    case 'manhattan':
+    default:
+      return dx + dy;
+  }
+};
+
+// Cube coordinates of a cell in the odd-r hex layout, where odd rows sit half
+// a cell to the right
+const toCube = ({ row, col }: NodeType) => {
+  const x = col - (row - (row & 1)) / 2;
+  return { x, y: -x - row, z: row };
+};
+
+// The same choice of heuristics on a hex board, where every step costs at
+// least 1. Chebyshev in cube coordinates is the hex distance, exact on an open
+// board; octile has no diagonal to discount and falls back to it. Euclidean
+// measures between cell centres and stays admissible. Manhattan sums two axial
+// axes, which double-counts one of the three directions and overestimates.
+export const hexHeuristicDistance = (
+  type: HeuristicType,
+  node: NodeType,
+  target: NodeType
+): number => {
+  const a = toCube(node);
+  const b = toCube(target);
+  const dx = Math.abs(a.x - b.x);
+  const dy = Math.abs(a.y - b.y);
+  const dz = Math.abs(a.z - b.z);
+
+  switch (type) {
+    case 'euclidean': {
+      const offsetX = node.col + (node.row & 1) / 2 - (target.col + (target.row & 1) / 2);
+      const offsetY = ((node.row - target.row) * Math.sqrt(3)) / 2;
+      return Math.sqrt(offsetX * offsetX + offsetY * offsetY);
+    }
+    case 'manhattan':
+      return dx + dz;
+    case 'octile':
+    case 'chebyshev':
+    default:
+      return Math.max(dx, dy, dz);
+  }
+};
@@ -1,20 +1,124 @@
 import { NodeType, createNode } from '@/types/Node';
+import { MinHeap } from '@/lib/minHeap';
+import { Random } from '@/lib/random';
+import { Topology, createTopology } from './topology';
+import { DEFAULT_MOVEMENT, MovementSettings } from './movement';
+import { UnionFind } from '@/lib/unionFind';
+
+export type MazeGeneratorType =
+  | 'backtracker'
+  | 'growing-tree'
+  | 'prim'
+  | 'kruskal'
+  | 'wilson'
+  | 'aldous-broder'
+  | 'eller'
+  | 'sidewinder'
+  | 'binary-tree'
+  | 'hunt-and-kill'
+  | 'random'
+  | 'cave'
+  | 'dungeon'
+  | 'recursive-division';
+
+// Which active cell the Growing Tree generator extends next
+export type GrowingTreeStrategy = 'newest' | 'random' | 'oldest' | 'mixed';
+
+export interface MazeSettings {
+  generator: MazeGeneratorType;
+  wallDensity: number; // random walls: share of cells turned into walls, 0 to 1
+  orientationBias: number; // recursive division: -1 forces vertical cuts, 1 horizontal, 0 follows the chamber shape
+  growingTreeStrategy: GrowingTreeStrategy;
+  growingTreeNewestShare: number; // mixed strategy: chance of taking the newest cell instead of a random one, 0 to 1
+  braidRatio: number; // share of dead ends opened up into loops after generation, 0 to 1
+  caveFill: number; // cave: share of cells seeded as walls before smoothing, 0 to 1
+  caveIterations: number; // cave: number of smoothing generations
+  caveBirthLimit: number; // cave: an open cell becomes a wall with at least this many wall neighbours (of 8)
+  caveSurvivalLimit: number; // cave: a wall stays a wall with at least this many wall neighbours (of 8)
+}
+
+export const DEFAULT_MAZE_SETTINGS: MazeSettings = {
+  generator: 'backtracker',
+  wallDensity: 0.3,
+  orientationBias: 0,
+  growingTreeStrategy: 'mixed',
+  growingTreeNewestShare: 0.5,
+  braidRatio: 0,
+  caveFill: 0.45,
+  caveIterations: 4,
+  caveBirthLimit: 5,
+  caveSurvivalLimit: 4,
+};
+
+export const growingTreeStrategyLabels: Record<GrowingTreeStrategy, string> = {
+  newest: 'Newest (Backtracker)',
+  random: 'Random (Prim-like)',
+  oldest: 'Oldest',
+  mixed: 'Newest / Random Mix',
+};
+
+// A single cell change, in the order the generator made it. 'walk' moves the
+// random walker of Wilson's and Aldous-Broder and leaves the cell unchanged.
+export interface MazeOperation {
+  type: 'wall' | 'carve' | 'walk';
+  row: number;
+  col: number;
+}
+
+// initialGrid is the canvas the generator starts from (all walls for carving
+// generators, open for wall-adding ones); replaying operationsInOrder on it
+// produces grid. startNode and endNode are set when the generator moved them.
+// Every generator starts from plain ground, so a seed and settings pair
+// rebuilds the same grid whatever terrain was painted before.
+export interface MazeResult {
+  grid: NodeType[][];
+  initialGrid: NodeType[][];
+  operationsInOrder: MazeOperation[];
+  startNode?: { row: number; col: number };
+  endNode?: { row: number; col: number };
+}
+
+export const mazeGeneratorLabels: Record<MazeGeneratorType, string> = {
+  backtracker: 'Recursive Backtracker',
+  'growing-tree': 'Growing Tree',
+  prim: "Randomized Prim's",
+  kruskal: "Randomized Kruskal's",
+  wilson: "Wilson's (Uniform)",
+  'aldous-broder': 'Aldous-Broder (Uniform)',
+  eller: "Eller's",
+  sidewinder: 'Sidewinder',
+  'binary-tree': 'Binary Tree',
+  'hunt-and-kill': 'Hunt-and-Kill',
+  random: 'Random Walls',
+  cave: 'Cellular Automaton Cave',
+  dungeon: 'BSP Dungeon',
+  'recursive-division': 'Recursive Division',
+};
+
+// Generators that produce open areas rather than one-cell corridors; the braid
+// pass does not apply to them
+export const openLayoutGenerators: MazeGeneratorType[] = ['random', 'cave', 'dungeon'];
 
 export const generateRandomMaze = (
   grid: NodeType[][],
   startNode: { row: number; col: number },
-  endNode: { row: number; col: number }
-): NodeType[][] => {
+  endNode: { row: number; col: number },
+  wallDensity = 0.3,
+  random: Random = Math.random
+): MazeResult => {
   const newGrid = grid.map((row) =>
     row.map((node) => ({
       ...node,
       isWall: false,
+      terrain: null,
       isVisited: false,
       isPath: false,
       distance: Infinity,
       previousNode: null,
     }))
   );
+  const initialGrid = cloneGrid(newGrid);
+  const operationsInOrder: MazeOperation[] = [];
 
   for (let row = 0; row < newGrid.length; row++) {
     for (let col = 0; col < newGrid[0].length; col++) {
@@ -25,8 +129,8 @@ export const generateRandomMaze = (
         continue;
       }
 
-      if (Math.random() < 0.3) {
-        newGrid[row][col].isWall = true;
+      if (random() < wallDensity) {
+        setWall(newGrid, row, col, true, operationsInOrder);
       }
     }
   }
@@ -34,25 +138,24 @@ export const generateRandomMaze = (
   newGrid[startNode.row][startNode.col].isStart = true;
   newGrid[endNode.row][endNode.col].isEnd = true;
 
-  return newGrid;
+  return { grid: newGrid, initialGrid, operationsInOrder };
 };
 
 export const generateRecursiveBacktrackerMaze = (
   rows: number,
   cols: number,
   startNode: { row: number; col: number },
-  endNode: { row: number; col: number }
-): NodeType[][] => {
-  const newGrid: NodeType[][] = [];
-  for (let row = 0; row < rows; row++) {
-    const currentRow: NodeType[] = [];
-    for (let col = 0; col < cols; col++) {
-      const node = createNode(row, col);
-      node.isWall = true;
-      currentRow.push(node);
-    }
-    newGrid.push(currentRow);
-  }
+  endNode: { row: number; col: number },
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
+  const { newGrid, initialGrid, operationsInOrder, lattice } = createWalledGrid(
+    rows,
+    cols,
+    startNode,
+    endNode,
+    movement
+  );
 
   const visited: boolean[][] = Array(rows)
     .fill(null)
@@ -63,50 +166,23 @@ export const generateRecursiveBacktrackerMaze = (
   const startR = 1;
   const startC = 1;
   
-  newGrid[startR][startC].isWall = false;
+  setWall(newGrid, startR, startC, false, operationsInOrder);
   visited[startR][startC] = true;
   stack.push({ row: startR, col: startC });
 
-  const directions = [
-    { dr: -2, dc: 0 },
-    { dr: 2, dc: 0 },
-    { dr: 0, dc: -2 },
-    { dr: 0, dc: 2 },
-  ];
-
-  const getUnvisitedNeighbors = (row: number, col: number) => {
-    const neighbors: { row: number; col: number; wallRow: number; wallCol: number }[] = [];
-    
-    for (const { dr, dc } of directions) {
-      const newRow = row + dr;
-      const newCol = col + dc;
-      const wallRow = row + dr / 2;
-      const wallCol = col + dc / 2;
-
-      if (
-        newRow > 0 &&
-        newRow < rows - 1 &&
-        newCol > 0 &&
-        newCol < cols - 1 &&
-        !visited[newRow][newCol]
-      ) {
-        neighbors.push({ row: newRow, col: newCol, wallRow, wallCol });
-      }
-    }
-
-    return neighbors;
-  };
+  const getUnvisitedNeighbors = (row: number, col: number) =>
+    lattice.edges(row, col).filter((edge) => !visited[edge.row][edge.col]);
 
   while (stack.length > 0) {
     const current = stack[stack.length - 1];
     const neighbors = getUnvisitedNeighbors(current.row, current.col);
 
     if (neighbors.length > 0) {
-      const randomIndex = Math.floor(Math.random() * neighbors.length);
+      const randomIndex = Math.floor(random() * neighbors.length);
       const chosen = neighbors[randomIndex];
 
-      newGrid[chosen.wallRow][chosen.wallCol].isWall = false;
-      newGrid[chosen.row][chosen.col].isWall = false;
+      setWall(newGrid, chosen.wallRow, chosen.wallCol, false, operationsInOrder);
+      setWall(newGrid, chosen.row, chosen.col, false, operationsInOrder);
       visited[chosen.row][chosen.col] = true;
 
       stack.push({ row: chosen.row, col: chosen.col });
@@ -115,83 +191,866 @@ export const generateRecursiveBacktrackerMaze = (
     }
   }
 
-  clearAreaAround(newGrid, startNode.row, startNode.col, rows, cols);
-  clearAreaAround(newGrid, endNode.row, endNode.col, rows, cols);
+  connectEndpoints(newGrid, startNode, endNode, operationsInOrder, lattice.topology);
+
+  return { grid: newGrid, initialGrid, operationsInOrder };
+};
+
+// Growing Tree: keeps a list of active cells, extends one of them into an
+// unvisited neighbour and retires cells with none left. Taking the newest cell
+// gives the backtracker's long corridors, a random one Prim's short dead ends.
+export const generateGrowingTreeMaze = (
+  rows: number,
+  cols: number,
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  strategy: GrowingTreeStrategy = 'newest',
+  newestShare = 0.5,
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
+  const { newGrid, initialGrid, operationsInOrder, lattice } = createWalledGrid(
+    rows,
+    cols,
+    startNode,
+    endNode,
+    movement
+  );
+  const active: { row: number; col: number }[] = [{ row: 1, col: 1 }];
+  setWall(newGrid, 1, 1, false, operationsInOrder);
+
+  const pickIndex = () => {
+    switch (strategy) {
+      case 'newest':
+        return active.length - 1;
+      case 'oldest':
+        return 0;
+      case 'random':
+        return Math.floor(random() * active.length);
+      case 'mixed':
+        return random() < newestShare ? active.length - 1 : Math.floor(random() * active.length);
+    }
+  };
+
+  while (active.length > 0) {
+    const index = pickIndex();
+    const current = active[index];
+    // Lattice cells are walls until carved, so isWall doubles as "unvisited"
+    const unvisited = lattice.edges(current.row, current.col).filter(
+      (edge) => newGrid[edge.row][edge.col].isWall
+    );
+
+    if (unvisited.length === 0) {
+      active.splice(index, 1);
+      continue;
+    }
+
+    const next = randomItem(unvisited, random);
+    setWall(newGrid, next.wallRow, next.wallCol, false, operationsInOrder);
+    setWall(newGrid, next.row, next.col, false, operationsInOrder);
+    active.push(next);
+  }
+
+  connectEndpoints(newGrid, startNode, endNode, operationsInOrder, lattice.topology);
+
+  return { grid: newGrid, initialGrid, operationsInOrder };
+};
+
+// Randomized Prim's: grows one tree from (1, 1), each time opening a random
+// wall on its boundary. Produces many short dead ends.
+export const generatePrimMaze = (
+  rows: number,
+  cols: number,
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
+  const { newGrid, initialGrid, operationsInOrder, lattice } = createWalledGrid(
+    rows,
+    cols,
+    startNode,
+    endNode,
+    movement
+  );
+  const inMaze: boolean[][] = Array(rows)
+    .fill(null)
+    .map(() => Array(cols).fill(false));
+  const frontier: LatticeEdge[] = [];
+
+  const addCell = (row: number, col: number) => {
+    inMaze[row][col] = true;
+    setWall(newGrid, row, col, false, operationsInOrder);
+    frontier.push(...lattice.edges(row, col));
+  };
+
+  addCell(1, 1);
+
+  while (frontier.length > 0) {
+    // Swap-remove a random boundary wall
+    const index = Math.floor(random() * frontier.length);
+    const edge = frontier[index];
+    frontier[index] = frontier[frontier.length - 1];
+    frontier.pop();
+
+    if (inMaze[edge.row][edge.col]) continue;
+    setWall(newGrid, edge.wallRow, edge.wallCol, false, operationsInOrder);
+    addCell(edge.row, edge.col);
+  }
+
+  connectEndpoints(newGrid, startNode, endNode, operationsInOrder, lattice.topology);
+
+  return { grid: newGrid, initialGrid, operationsInOrder };
+};
+
+// Randomized Kruskal's: visits every lattice wall in random order and opens it
+// when the cells on either side still belong to different trees.
+export const generateKruskalMaze = (
+  rows: number,
+  cols: number,
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
+  const { newGrid, initialGrid, operationsInOrder, lattice } = createWalledGrid(
+    rows,
+    cols,
+    startNode,
+    endNode,
+    movement
+  );
+  const sets = new UnionFind(rows * cols);
+  const edges: { from: [number, number]; to: LatticeEdge }[] = [];
+
+  for (let row = 1; row < rows - 1; row += 2) {
+    for (let col = 1; col < cols - 1; col += 2) {
+      // Only right and down, so each wall is listed once
+      for (const edge of lattice.edges(row, col)) {
+        if (edge.row > row || edge.col > col) edges.push({ from: [row, col], to: edge });
+      }
+    }
+  }
+  shuffle(edges, random);
+
+  for (const { from, to } of edges) {
+    if (!sets.union(from[0] * cols + from[1], to.row * cols + to.col)) continue;
+    setWall(newGrid, from[0], from[1], false, operationsInOrder);
+    setWall(newGrid, to.wallRow, to.wallCol, false, operationsInOrder);
+    setWall(newGrid, to.row, to.col, false, operationsInOrder);
+  }
+
+  connectEndpoints(newGrid, startNode, endNode, operationsInOrder, lattice.topology);
+
+  return { grid: newGrid, initialGrid, operationsInOrder };
+};
+
+// Wilson's: loop-erased random walks from each cell not yet in the maze until
+// they hit it. The walk is carved as it goes and loops are walled back up as
+// soon as the walker crosses its own path, so the animation shows the erasure.
+export const generateWilsonMaze = (
+  rows: number,
+  cols: number,
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
+  const { newGrid, initialGrid, operationsInOrder, lattice } = createWalledGrid(
+    rows,
+    cols,
+    startNode,
+    endNode,
+    movement
+  );
+  const inMaze: boolean[][] = Array(rows)
+    .fill(null)
+    .map(() => Array(cols).fill(false));
+  const cells = shuffle(lattice.cells, random);
+
+  const [root, ...rest] = cells;
+  inMaze[root.row][root.col] = true;
+  setWall(newGrid, root.row, root.col, false, operationsInOrder);
+
+  for (const cell of rest) {
+    if (inMaze[cell.row][cell.col]) continue;
+
+    // Each step remembers the wall it came through, so erasing can close it again
+    const walk: { row: number; col: number; wallRow: number; wallCol: number }[] = [
+      { ...cell, wallRow: -1, wallCol: -1 },
+    ];
+    const walkIndex = new Map<string, number>([[`${cell.row}-${cell.col}`, 0]]);
+    setWall(newGrid, cell.row, cell.col, false, operationsInOrder);
+    operationsInOrder.push({ type: 'walk', row: cell.row, col: cell.col });
+
+    for (;;) {
+      const current = walk[walk.length - 1];
+      const next = randomItem(lattice.edges(current.row, current.col), random);
+
+      if (inMaze[next.row][next.col]) {
+        setWall(newGrid, next.wallRow, next.wallCol, false, operationsInOrder);
+        operationsInOrder.push({ type: 'walk', row: next.row, col: next.col });
+        for (const step of walk) inMaze[step.row][step.col] = true;
+        break;
+      }
+
+      const loopStart = walkIndex.get(`${next.row}-${next.col}`);
+      if (loopStart !== undefined) {
+        // Erase the loop, newest step first
+        while (walk.length > loopStart + 1) {
+          const step = walk.pop()!;
+          walkIndex.delete(`${step.row}-${step.col}`);
+          setWall(newGrid, step.row, step.col, true, operationsInOrder);
+          setWall(newGrid, step.wallRow, step.wallCol, true, operationsInOrder);
+        }
+      } else {
+        setWall(newGrid, next.wallRow, next.wallCol, false, operationsInOrder);
+        setWall(newGrid, next.row, next.col, false, operationsInOrder);
+        walkIndex.set(`${next.row}-${next.col}`, walk.length);
+        walk.push(next);
+      }
+      operationsInOrder.push({ type: 'walk', row: next.row, col: next.col });
+    }
+  }
+
+  connectEndpoints(newGrid, startNode, endNode, operationsInOrder, lattice.topology);
+
+  return { grid: newGrid, initialGrid, operationsInOrder };
+};
+
+// Aldous-Broder: a single random walk over the whole lattice that opens the
+// wall behind it whenever it enters a cell for the first time. Simple but
+// slow to finish, since the last few cells take a long time to reach.
+export const generateAldousBroderMaze = (
+  rows: number,
+  cols: number,
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
+  const { newGrid, initialGrid, operationsInOrder, lattice } = createWalledGrid(
+    rows,
+    cols,
+    startNode,
+    endNode,
+    movement
+  );
+  const cells = lattice.cells;
+  let remaining = cells.length - 1;
+  let current = randomItem(cells, random);
+  setWall(newGrid, current.row, current.col, false, operationsInOrder);
+  operationsInOrder.push({ type: 'walk', row: current.row, col: current.col });
+
+  while (remaining > 0) {
+    const next = randomItem(lattice.edges(current.row, current.col), random);
+    if (newGrid[next.row][next.col].isWall) {
+      setWall(newGrid, next.wallRow, next.wallCol, false, operationsInOrder);
+      setWall(newGrid, next.row, next.col, false, operationsInOrder);
+      remaining--;
+    }
+    operationsInOrder.push({ type: 'walk', row: next.row, col: next.col });
+    current = next;
+  }
+
+  connectEndpoints(newGrid, startNode, endNode, operationsInOrder, lattice.topology);
+
+  return { grid: newGrid, initialGrid, operationsInOrder };
+};
+
+// Eller's: builds the maze one row at a time, keeping only set membership for
+// the current row. Cells are merged sideways at random, then every set drops
+// at least one passage into the next row; the last row joins whatever is left.
+export const generateEllerMaze = (
+  rows: number,
+  cols: number,
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
+  const { newGrid, initialGrid, operationsInOrder, lattice } = createWalledGrid(
+    rows,
+    cols,
+    startNode,
+    endNode,
+    movement
+  );
+  const sets = new UnionFind(rows * cols);
+  const id = (row: number, col: number) => row * cols + col;
+
+  for (let row = 1; row < rows - 1; row += 2) {
+    const isLastRow = row + 2 >= rows - 1;
+
+    for (let col = 1; col < cols - 1; col += 2) {
+      setWall(newGrid, row, col, false, operationsInOrder);
+      if (col === 1) continue;
+      if ((isLastRow || random() < 0.5) && sets.union(id(row, col - 2), id(row, col))) {
+        const edge = lattice.edgeBetween({ row, col: col - 2 }, { row, col });
+        setWall(newGrid, edge.wallRow, edge.wallCol, false, operationsInOrder);
+      }
+    }
+    if (isLastRow) break;
+
+    const cellsBySet = new Map<number, number[]>();
+    for (let col = 1; col < cols - 1; col += 2) {
+      const root = sets.find(id(row, col));
+      cellsBySet.set(root, [...(cellsBySet.get(root) ?? []), col]);
+    }
+    for (const setCols of cellsBySet.values()) {
+      shuffle(setCols, random).forEach((col, index) => {
+        if (index > 0 && random() >= 0.5) return;
+        sets.union(id(row, col), id(row + 2, col));
+        const edge = lattice.edgeBetween({ row, col }, { row: row + 2, col });
+        setWall(newGrid, edge.wallRow, edge.wallCol, false, operationsInOrder);
+      });
+    }
+  }
+
+  connectEndpoints(newGrid, startNode, endNode, operationsInOrder, lattice.topology);
+
+  return { grid: newGrid, initialGrid, operationsInOrder };
+};
+
+// Sidewinder: the top row is one corridor; below it, each row is cut into
+// random horizontal runs and every run opens upwards from one of its cells.
+// Paths heading north are short and direct, paths heading south wind.
+export const generateSidewinderMaze = (
+  rows: number,
+  cols: number,
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
+  const { newGrid, initialGrid, operationsInOrder, lattice } = createWalledGrid(
+    rows,
+    cols,
+    startNode,
+    endNode,
+    movement
+  );
+
+  for (let row = 1; row < rows - 1; row += 2) {
+    let run: number[] = [];
+    for (let col = 1; col < cols - 1; col += 2) {
+      setWall(newGrid, row, col, false, operationsInOrder);
+      run.push(col);
+
+      const atEastEdge = col + 2 >= cols - 1;
+      const closeRun = atEastEdge || (row > 1 && random() < 0.5);
+      if (!closeRun) {
+        const edge = lattice.edgeBetween({ row, col }, { row, col: col + 2 });
+        setWall(newGrid, edge.wallRow, edge.wallCol, false, operationsInOrder);
+      } else {
+        if (row > 1) {
+          const runCol = randomItem(run, random);
+          const edge = lattice.edgeBetween({ row, col: runCol }, { row: row - 2, col: runCol });
+          setWall(newGrid, edge.wallRow, edge.wallCol, false, operationsInOrder);
+        }
+        run = [];
+      }
+    }
+  }
+
+  connectEndpoints(newGrid, startNode, endNode, operationsInOrder, lattice.topology);
+
+  return { grid: newGrid, initialGrid, operationsInOrder };
+};
+
+// Binary Tree: every cell opens either north or west. The top row and left
+// column become unbroken corridors and every path drifts toward the top-left.
+export const generateBinaryTreeMaze = (
+  rows: number,
+  cols: number,
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
+  const { newGrid, initialGrid, operationsInOrder, lattice } = createWalledGrid(
+    rows,
+    cols,
+    startNode,
+    endNode,
+    movement
+  );
+
+  for (const { row, col } of lattice.cells) {
+    setWall(newGrid, row, col, false, operationsInOrder);
+
+    const openings = lattice.edges(row, col).filter((edge) => edge.row < row || edge.col < col);
+    if (openings.length > 0) {
+      const edge = randomItem(openings, random);
+      setWall(newGrid, edge.wallRow, edge.wallCol, false, operationsInOrder);
+    }
+  }
+
+  connectEndpoints(newGrid, startNode, endNode, operationsInOrder, lattice.topology);
 
-  newGrid[startNode.row][startNode.col].isWall = false;
+  return { grid: newGrid, initialGrid, operationsInOrder };
+};
+
+// Hunt-and-Kill: random walks like the backtracker, but when the walk gets
+// stuck it scans the grid top to bottom for an unvisited cell next to the
+// maze instead of backtracking, which leaves fewer, longer dead ends.
+export const generateHuntAndKillMaze = (
+  rows: number,
+  cols: number,
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
+  const { newGrid, initialGrid, operationsInOrder, lattice } = createWalledGrid(
+    rows,
+    cols,
+    startNode,
+    endNode,
+    movement
+  );
+  // Lattice cells are walls until carved, so isWall doubles as "unvisited"
+  const isUnvisited = (edge: LatticeEdge) => newGrid[edge.row][edge.col].isWall;
+  const cells = lattice.cells;
+
+  let current: { row: number; col: number } | undefined = randomItem(cells, random);
+  setWall(newGrid, current.row, current.col, false, operationsInOrder);
+
+  while (current) {
+    const unvisited = lattice.edges(current.row, current.col).filter(isUnvisited);
+    if (unvisited.length > 0) {
+      const next = randomItem(unvisited, random);
+      setWall(newGrid, next.wallRow, next.wallCol, false, operationsInOrder);
+      setWall(newGrid, next.row, next.col, false, operationsInOrder);
+      current = next;
+      continue;
+    }
+
+    // Hunt: first unvisited cell with a visited neighbour, joined to one of them
+    current = undefined;
+    for (const cell of cells) {
+      if (!newGrid[cell.row][cell.col].isWall) continue;
+      const visited = lattice.edges(cell.row, cell.col).filter((edge) => !isUnvisited(edge));
+      if (visited.length === 0) continue;
+
+      const link = randomItem(visited, random);
+      setWall(newGrid, cell.row, cell.col, false, operationsInOrder);
+      setWall(newGrid, link.wallRow, link.wallCol, false, operationsInOrder);
+      current = cell;
+      break;
+    }
+  }
+
+  connectEndpoints(newGrid, startNode, endNode, operationsInOrder, lattice.topology);
+
+  return { grid: newGrid, initialGrid, operationsInOrder };
+};
+
+// Post-processing pass for the lattice generators: opens a wall at the given
+// share of dead ends, preferring walls that also fix a neighbouring dead end.
+// The added loops give the maze more than one route between start and end.
+export const braidMaze = (
+  result: MazeResult,
+  braidRatio: number,
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
+  const newGrid = cloneGrid(result.grid);
+  const newOperations = [...result.operationsInOrder];
+  const lattice = createLattice(newGrid, movement);
+
+  const isDeadEnd = (row: number, col: number) =>
+    !newGrid[row][col].isWall &&
+    lattice.topology.sides(newGrid[row][col]).filter((neighbor) => !neighbor.isWall).length === 1;
+
+  const deadEnds = shuffle(lattice.cells.filter(({ row, col }) => isDeadEnd(row, col)), random);
+  const keep = deadEnds.length - Math.round(deadEnds.length * braidRatio);
+  const remaining = () => deadEnds.filter(({ row, col }) => isDeadEnd(row, col)).length;
+
+  // One opening can fix two dead ends, so count what is left rather than openings
+  for (const { row, col } of deadEnds) {
+    if (remaining() <= keep) break;
+    if (!isDeadEnd(row, col)) continue;
+
+    const candidates = lattice.edges(row, col).filter(
+      (edge) => newGrid[edge.wallRow][edge.wallCol].isWall && !newGrid[edge.row][edge.col].isWall
+    );
+    if (candidates.length === 0) continue;
+
+    const pairedDeadEnds = candidates.filter((edge) => isDeadEnd(edge.row, edge.col));
+    const edge = randomItem(pairedDeadEnds.length > 0 ? pairedDeadEnds : candidates, random);
+    setWall(newGrid, edge.wallRow, edge.wallCol, false, newOperations);
+  }
+
+  return { ...result, grid: newGrid, operationsInOrder: newOperations };
+};
+
+// A neighbouring lattice cell two steps away and the wall cell between them
+interface LatticeEdge {
+  row: number;
+  col: number;
+  wallRow: number;
+  wallCol: number;
+}
+
+// The passage lattice of the carving generators: cells on odd rows and columns
+// inside the border, one wall cell apart. Both steps of an edge follow the
+// topology's sides, so the lattice follows the shape of the board; on a hex
+// board a lattice cell ends up with the same four neighbours as on a square one.
+// Hex passage cells also touch each other diagonally around a lattice cell, so
+// carved hex mazes gain corner shortcuts there but no new routes.
+const createLattice = (grid: NodeType[][], movement: MovementSettings) => {
+  const topology = createTopology(grid, movement);
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const isCell = ({ row, col }: NodeType) => row % 2 === 1 && col % 2 === 1 && row < rows - 1 && col < cols - 1;
+
+  const cells: { row: number; col: number }[] = [];
+  for (let row = 1; row < rows - 1; row += 2) {
+    for (let col = 1; col < cols - 1; col += 2) {
+      cells.push({ row, col });
+    }
+  }
+
+  // Hex cells can share two wall cells with a neighbour; the first one found is used
+  const edges = (row: number, col: number): LatticeEdge[] => {
+    const node = grid[row][col];
+    const found = new Map<NodeType, LatticeEdge>();
+    for (const wall of topology.sides(node)) {
+      for (const next of topology.sides(wall)) {
+        if (next !== node && isCell(next) && !found.has(next)) {
+          found.set(next, { row: next.row, col: next.col, wallRow: wall.row, wallCol: wall.col });
+        }
+      }
+    }
+    return [...found.values()];
+  };
+
+  const edgeBetween = (from: { row: number; col: number }, to: { row: number; col: number }) =>
+    edges(from.row, from.col).find((edge) => edge.row === to.row && edge.col === to.col)!;
+
+  return { topology, cells, edges, edgeBetween };
+};
+
+const shuffle = <T>(items: T[], random: Random): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+// Starting canvas for the lattice generators: every cell is a wall and
+// passages are carved through the odd rows and columns.
+const createWalledGrid = (
+  rows: number,
+  cols: number,
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  movement: MovementSettings = DEFAULT_MOVEMENT
+) => {
+  const newGrid: NodeType[][] = [];
+  for (let row = 0; row < rows; row++) {
+    const currentRow: NodeType[] = [];
+    for (let col = 0; col < cols; col++) {
+      const node = createNode(row, col);
+      node.isWall = true;
+      currentRow.push(node);
+    }
+    newGrid.push(currentRow);
+  }
   newGrid[startNode.row][startNode.col].isStart = true;
-  newGrid[endNode.row][endNode.col].isWall = false;
   newGrid[endNode.row][endNode.col].isEnd = true;
 
-  connectToMaze(newGrid, startNode.row, startNode.col, rows, cols);
-  connectToMaze(newGrid, endNode.row, endNode.col, rows, cols);
+  return {
+    newGrid,
+    initialGrid: cloneGrid(newGrid),
+    operationsInOrder: [] as MazeOperation[],
+    lattice: createLattice(newGrid, movement),
+  };
+};
 
-  return newGrid;
+// Start and end may sit off the lattice, so open a pocket of touching cells
+// around each and tunnel through whatever still separates them.
+const connectEndpoints = (
+  grid: NodeType[][],
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  operationsInOrder: MazeOperation[],
+  topology: Topology
+) => {
+  for (const { row, col } of [startNode, endNode]) {
+    const node = grid[row][col];
+    for (const cell of [node, ...topology.touching(node)]) {
+      setWall(grid, cell.row, cell.col, false, operationsInOrder);
+    }
+  }
+  tunnelBetween(topology, grid, startNode, endNode, operationsInOrder);
 };
 
-const clearAreaAround = (
+const cloneGrid = (grid: NodeType[][]): NodeType[][] =>
+  grid.map((row) => row.map((node) => ({ ...node })));
+
+// Changes a cell and records it; cells already in the requested state are not recorded
+const setWall = (
   grid: NodeType[][],
   row: number,
   col: number,
-  rows: number,
-  cols: number
+  isWall: boolean,
+  operationsInOrder: MazeOperation[]
 ) => {
-  for (let dr = -1; dr <= 1; dr++) {
-    for (let dc = -1; dc <= 1; dc++) {
-      const newRow = row + dr;
-      const newCol = col + dc;
-      if (newRow >= 0 && newRow < rows && newCol >= 0 && newCol < cols) {
-        grid[newRow][newCol].isWall = false;
+  const node = grid[row][col];
+  if (node.isWall === isWall) return;
+  node.isWall = isWall;
+  if (isWall) node.terrain = null;
+  operationsInOrder.push({ type: isWall ? 'wall' : 'carve', row, col });
+};
+
+// A rectangle of the grid; BSP leaves and the rooms inside them
+interface Area {
+  top: number;
+  left: number;
+  height: number;
+  width: number;
+}
+
+interface BspNode {
+  area: Area;
+  children?: [BspNode, BspNode];
+  room?: Area;
+}
+
+const MIN_LEAF_SIZE = 6;
+
+// BSP dungeon: splits the grid into nested rectangles, carves a room in each
+// leaf and joins sibling subtrees with L-shaped corridors, deepest first.
+// Start and end move to the centres of the first and last rooms.
+export const generateDungeonMaze = (rows: number, cols: number, random: Random = Math.random): MazeResult => {
+  const root = splitArea({ top: 1, left: 1, height: rows - 2, width: cols - 2 }, random);
+  const rooms = collectRooms(root);
+  const startNode = areaCenter(rooms[0]);
+  const endNode = areaCenter(rooms[rooms.length - 1]);
+  const { newGrid, initialGrid, operationsInOrder } = createWalledGrid(rows, cols, startNode, endNode);
+
+  for (const room of rooms) {
+    for (let row = room.top; row < room.top + room.height; row++) {
+      for (let col = room.left; col < room.left + room.width; col++) {
+        setWall(newGrid, row, col, false, operationsInOrder);
       }
     }
   }
+
+  const connect = (node: BspNode) => {
+    if (!node.children) return;
+    const [first, second] = node.children;
+    connect(first);
+    connect(second);
+
+    const from = areaCenter(randomItem(collectRooms(first), random));
+    const to = areaCenter(randomItem(collectRooms(second), random));
+    const corner = random() < 0.5 ? { row: from.row, col: to.col } : { row: to.row, col: from.col };
+    carveLine(newGrid, from, corner, operationsInOrder);
+    carveLine(newGrid, corner, to, operationsInOrder);
+  };
+  connect(root);
+
+  return { grid: newGrid, initialGrid, operationsInOrder, startNode, endNode };
+};
+
+// Splits across the longer side when it is clearly longer, at a random point
+// that leaves both halves at least MIN_LEAF_SIZE
+const splitArea = (area: Area, random: Random): BspNode => {
+  const canSplitRows = area.height >= MIN_LEAF_SIZE * 2;
+  const canSplitCols = area.width >= MIN_LEAF_SIZE * 2;
+
+  if (!canSplitRows && !canSplitCols) {
+    // Rooms keep off the leaf's last row and column so neighbouring rooms never touch
+    const height = randomInt(3, area.height - 1, random);
+    const width = randomInt(3, area.width - 1, random);
+    const room = {
+      top: area.top + randomInt(0, area.height - 1 - height, random),
+      left: area.left + randomInt(0, area.width - 1 - width, random),
+      height,
+      width,
+    };
+    return { area, room };
+  }
+
+  const splitRows =
+    canSplitRows &&
+    (!canSplitCols ||
+      area.height > area.width * 1.25 ||
+      (area.width <= area.height * 1.25 && random() < 0.5));
+
+  if (splitRows) {
+    const height = randomInt(MIN_LEAF_SIZE, area.height - MIN_LEAF_SIZE, random);
+    return {
+      area,
+      children: [
+        splitArea({ ...area, height }, random),
+        splitArea({ ...area, top: area.top + height, height: area.height - height }, random),
+      ],
+    };
+  }
+
+  const width = randomInt(MIN_LEAF_SIZE, area.width - MIN_LEAF_SIZE, random);
+  return {
+    area,
+    children: [
+      splitArea({ ...area, width }, random),
+      splitArea({ ...area, left: area.left + width, width: area.width - width }, random),
+    ],
+  };
+};
+
+const collectRooms = (node: BspNode): Area[] =>
+  node.children ? node.children.flatMap(collectRooms) : node.room ? [node.room] : [];
+
+const areaCenter = (area: Area) => ({
+  row: area.top + Math.floor(area.height / 2),
+  col: area.left + Math.floor(area.width / 2),
+});
+
+// Carves a straight horizontal or vertical run, both ends included
+const carveLine = (
+  grid: NodeType[][],
+  from: { row: number; col: number },
+  to: { row: number; col: number },
+  operationsInOrder: MazeOperation[]
+) => {
+  const dr = Math.sign(to.row - from.row);
+  const dc = Math.sign(to.col - from.col);
+  let { row, col } = from;
+  setWall(grid, row, col, false, operationsInOrder);
+  while (row !== to.row || col !== to.col) {
+    row += dr;
+    col += dc;
+    setWall(grid, row, col, false, operationsInOrder);
+  }
+};
+
+const randomInt = (min: number, max: number, random: Random) => min + Math.floor(random() * (max - min + 1));
+
+// Seeds random walls, then smooths them with a birth/survival cellular
+// automaton where cells off the grid count as walls. Caverns that end up
+// separated are joined by tunnelling through as few walls as possible.
+export const generateCaveMaze = (
+  grid: NodeType[][],
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  fill = 0.45,
+  iterations = 4,
+  birthLimit = 5,
+  survivalLimit = 4,
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
+  const newGrid = grid.map((row) =>
+    row.map((node) => ({
+      ...node,
+      isWall: false,
+      terrain: null,
+      isStart: false,
+      isEnd: false,
+      isVisited: false,
+      isPath: false,
+      distance: Infinity,
+      previousNode: null,
+    }))
+  );
+  newGrid[startNode.row][startNode.col].isStart = true;
+  newGrid[endNode.row][endNode.col].isEnd = true;
+  const initialGrid = cloneGrid(newGrid);
+  const operationsInOrder: MazeOperation[] = [];
+  const isEndpoint = (node: NodeType) => node.isStart || node.isEnd;
+
+  for (const node of newGrid.flat()) {
+    if (!isEndpoint(node) && random() < fill) {
+      setWall(newGrid, node.row, node.col, true, operationsInOrder);
+    }
+  }
+
+  // Every touching cell counts, and cells missing at the edge of the grid count
+  // as walls. The limits are out of eight, so other neighbourhood sizes are
+  // scaled to match.
+  const topology = createTopology(newGrid, movement);
+  const countWallNeighbors = (walls: boolean[][], node: NodeType) => {
+    const touching = topology.touching(node);
+    const count =
+      topology.touchingSize - touching.length + touching.filter((neighbor) => walls[neighbor.row][neighbor.col]).length;
+    return Math.round((count * 8) / topology.touchingSize);
+  };
+
+  for (let i = 0; i < iterations; i++) {
+    // Every cell of a generation reads the previous one
+    const walls = newGrid.map((row) => row.map((node) => node.isWall));
+    for (const node of newGrid.flat()) {
+      if (isEndpoint(node)) continue;
+      const wallNeighbors = countWallNeighbors(walls, node);
+      const isWall = walls[node.row][node.col] ? wallNeighbors >= survivalLimit : wallNeighbors >= birthLimit;
+      setWall(newGrid, node.row, node.col, isWall, operationsInOrder);
+    }
+  }
+
+  tunnelBetween(topology, newGrid, startNode, endNode, operationsInOrder);
+
+  return { grid: newGrid, initialGrid, operationsInOrder };
 };
 
-const connectToMaze = (
+// Opens the route from start to end that crosses the fewest walls, which is
+// nothing at all when they already share a region.
+const tunnelBetween = (
+  topology: Topology,
   grid: NodeType[][],
-  row: number,
-  col: number,
-  rows: number,
-  cols: number
+  startNode: { row: number; col: number },
+  endNode: { row: number; col: number },
+  operationsInOrder: MazeOperation[]
 ) => {
-  const directions = [
-    { dr: -1, dc: 0 },
-    { dr: 1, dc: 0 },
-    { dr: 0, dc: -1 },
-    { dr: 0, dc: 1 },
-  ];
-
-  const shuffledDirs = [...directions].sort(() => Math.random() - 0.5);
-  
-  for (const { dr, dc } of shuffledDirs) {
-    let currentRow = row + dr;
-    let currentCol = col + dc;
-    
-    while (
-      currentRow > 0 &&
-      currentRow < rows - 1 &&
-      currentCol > 0 &&
-      currentCol < cols - 1
-    ) {
-      if (!grid[currentRow][currentCol].isWall) {
-        return;
+  const start = grid[startNode.row][startNode.col];
+  const end = grid[endNode.row][endNode.col];
+  const cost = new Map<string, number>([[topology.nodeId(start), 0]]);
+  const previous = new Map<string, NodeType>();
+  const heap = new MinHeap<{ node: NodeType; cost: number }>((a, b) => a.cost - b.cost);
+  heap.push({ node: start, cost: 0 });
+
+  while (!heap.isEmpty()) {
+    const current = heap.pop()!;
+    if (current.cost > cost.get(topology.nodeId(current.node))!) continue;
+    if (current.node === end) break;
+
+    // Walls count as the only cost, since they are what has to be dug out.
+    // Sides only, so the tunnel is usable under every movement model.
+    for (const neighbor of topology.sides(current.node)) {
+      const id = topology.nodeId(neighbor);
+      const nextCost = current.cost + (neighbor.isWall ? 1 : 0);
+      if (nextCost < (cost.get(id) ?? Infinity)) {
+        cost.set(id, nextCost);
+        previous.set(id, current.node);
+        heap.push({ node: neighbor, cost: nextCost });
       }
-      grid[currentRow][currentCol].isWall = false;
-      currentRow += dr;
-      currentCol += dc;
     }
   }
+
+  let step = previous.get(topology.nodeId(end));
+  while (step && step !== start) {
+    setWall(grid, step.row, step.col, false, operationsInOrder);
+    step = previous.get(topology.nodeId(step));
+  }
 };
 
 export const generateRecursiveMaze = (
   grid: NodeType[][],
   startNode: { row: number; col: number },
-  endNode: { row: number; col: number }
-): { grid: NodeType[][]; wallsInOrder: [number, number][] } => {
+  endNode: { row: number; col: number },
+  orientationBias = 0,
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  random: Random = Math.random
+): MazeResult => {
   const newGrid = grid.map((row) =>
     row.map((node) => ({
       ...node,
       isWall: false,
+      terrain: null,
       isVisited: false,
       isPath: false,
       distance: Infinity,
@@ -222,110 +1081,135 @@ export const generateRecursiveMaze = (
     rows - 2,
     1,
     cols - 2,
-    'horizontal',
     wallsInOrder,
     startNode,
-    endNode
+    endNode,
+    orientationBias,
+    random
   );
 
+  const initialGrid = cloneGrid(newGrid);
+  const operationsInOrder: MazeOperation[] = [];
+  for (const [row, col] of wallsInOrder) {
+    setWall(newGrid, row, col, true, operationsInOrder);
+  }
+  // An endpoint moved onto a wall line or the border can still be sealed off
+  tunnelBetween(createTopology(newGrid, movement), newGrid, startNode, endNode, operationsInOrder);
+
   newGrid[startNode.row][startNode.col].isStart = true;
   newGrid[endNode.row][endNode.col].isEnd = true;
 
-  return { grid: newGrid, wallsInOrder };
+  return { grid: newGrid, initialGrid, operationsInOrder };
 };
 
+// Divides the chamber rows rowStart..rowEnd x cols colStart..colEnd with one
+// wall and recurses into both halves. Walls only go on even rows/cols and
+// gaps only on odd ones, so a later perpendicular wall can never seal a gap.
 const recursiveDivision = (
   grid: NodeType[][],
   rowStart: number,
   rowEnd: number,
   colStart: number,
   colEnd: number,
-  orientation: 'horizontal' | 'vertical',
   wallsInOrder: [number, number][],
   startNode: { row: number; col: number },
-  endNode: { row: number; col: number }
+  endNode: { row: number; col: number },
+  orientationBias: number,
+  random: Random
 ) => {
-  if (rowEnd < rowStart || colEnd < colStart) return;
-
-  if (orientation === 'horizontal') {
-    const possibleRows: number[] = [];
-    for (let row = rowStart; row <= rowEnd; row += 2) {
-      possibleRows.push(row);
-    }
-    if (possibleRows.length === 0) return;
+  const wallRows = indicesWithParity(rowStart + 1, rowEnd - 1, 0);
+  const wallCols = indicesWithParity(colStart + 1, colEnd - 1, 0);
+  if (wallRows.length === 0 && wallCols.length === 0) return;
 
-    const randomRowIndex = Math.floor(Math.random() * possibleRows.length);
-    const currentRow = possibleRows[randomRowIndex];
-
-    const possibleCols: number[] = [];
-    for (let col = colStart - 1; col <= colEnd + 1; col += 2) {
-      possibleCols.push(col);
-    }
-    if (possibleCols.length === 0) return;
+  // Cut across the longer side; with probability |bias| the favoured orientation wins instead
+  const height = rowEnd - rowStart;
+  const width = colEnd - colStart;
+  let orientation: 'horizontal' | 'vertical' =
+    height > width ? 'horizontal' : width > height ? 'vertical' : random() < 0.5 ? 'horizontal' : 'vertical';
+  if (random() < Math.abs(orientationBias)) {
+    orientation = orientationBias > 0 ? 'horizontal' : 'vertical';
+  }
+  if (orientation === 'horizontal' && wallRows.length === 0) orientation = 'vertical';
+  if (orientation === 'vertical' && wallCols.length === 0) orientation = 'horizontal';
 
-    const randomColIndex = Math.floor(Math.random() * possibleCols.length);
-    const randomCol = possibleCols[randomColIndex];
+  const isEndpoint = (row: number, col: number) =>
+    (row === startNode.row && col === startNode.col) || (row === endNode.row && col === endNode.col);
 
-    for (let col = colStart - 1; col <= colEnd + 1; col++) {
-      if (col === randomCol) continue;
-      if (
-        (currentRow === startNode.row && col === startNode.col) ||
-        (currentRow === endNode.row && col === endNode.col)
-      )
-        continue;
-      wallsInOrder.push([currentRow, col]);
-    }
+  if (orientation === 'horizontal') {
+    const wallRow = randomItem(wallRows, random);
+    const gapCol = randomItem(indicesWithParity(colStart, colEnd, 1), random);
 
-    if (currentRow - 2 - rowStart > colEnd - colStart) {
-      recursiveDivision(grid, rowStart, currentRow - 2, colStart, colEnd, 'horizontal', wallsInOrder, startNode, endNode);
-    } else {
-      recursiveDivision(grid, rowStart, currentRow - 2, colStart, colEnd, 'vertical', wallsInOrder, startNode, endNode);
+    for (let col = colStart; col <= colEnd; col++) {
+      if (col === gapCol || isEndpoint(wallRow, col)) continue;
+      wallsInOrder.push([wallRow, col]);
     }
 
-    if (rowEnd - (currentRow + 2) > colEnd - colStart) {
-      recursiveDivision(grid, currentRow + 2, rowEnd, colStart, colEnd, 'horizontal', wallsInOrder, startNode, endNode);
-    } else {
-      recursiveDivision(grid, currentRow + 2, rowEnd, colStart, colEnd, 'vertical', wallsInOrder, startNode, endNode);
-    }
+    recursiveDivision(
+      grid,
+      rowStart,
+      wallRow - 1,
+      colStart,
+      colEnd,
+      wallsInOrder,
+      startNode,
+      endNode,
+      orientationBias,
+      random
+    );
+    recursiveDivision(
+      grid,
+      wallRow + 1,
+      rowEnd,
+      colStart,
+      colEnd,
+      wallsInOrder,
+      startNode,
+      endNode,
+      orientationBias,
+      random
+    );
   } else {
-    const possibleCols: number[] = [];
-    for (let col = colStart; col <= colEnd; col += 2) {
-      possibleCols.push(col);
-    }
-    if (possibleCols.length === 0) return;
-
-    const randomColIndex = Math.floor(Math.random() * possibleCols.length);
-    const currentCol = possibleCols[randomColIndex];
+    const wallCol = randomItem(wallCols, random);
+    const gapRow = randomItem(indicesWithParity(rowStart, rowEnd, 1), random);
 
-    const possibleRows: number[] = [];
-    for (let row = rowStart - 1; row <= rowEnd + 1; row += 2) {
-      possibleRows.push(row);
+    for (let row = rowStart; row <= rowEnd; row++) {
+      if (row === gapRow || isEndpoint(row, wallCol)) continue;
+      wallsInOrder.push([row, wallCol]);
     }
-    if (possibleRows.length === 0) return;
-
-    const randomRowIndex = Math.floor(Math.random() * possibleRows.length);
-    const randomRow = possibleRows[randomRowIndex];
 
-    for (let row = rowStart - 1; row <= rowEnd + 1; row++) {
-      if (row === randomRow) continue;
-      if (
-        (row === startNode.row && currentCol === startNode.col) ||
-        (row === endNode.row && currentCol === endNode.col)
-      )
-        continue;
-      wallsInOrder.push([row, currentCol]);
-    }
-
-    if (rowEnd - rowStart > currentCol - 2 - colStart) {
-      recursiveDivision(grid, rowStart, rowEnd, colStart, currentCol - 2, 'horizontal', wallsInOrder, startNode, endNode);
-    } else {
-      recursiveDivision(grid, rowStart, rowEnd, colStart, currentCol - 2, 'vertical', wallsInOrder, startNode, endNode);
-    }
+    recursiveDivision(
+      grid,
+      rowStart,
+      rowEnd,
+      colStart,
+      wallCol - 1,
+      wallsInOrder,
+      startNode,
+      endNode,
+      orientationBias,
+      random
+    );
+    recursiveDivision(
+      grid,
+      rowStart,
+      rowEnd,
+      wallCol + 1,
+      colEnd,
+      wallsInOrder,
+      startNode,
+      endNode,
+      orientationBias,
+      random
+    );
+  }
+};
 
-    if (rowEnd - rowStart > colEnd - (currentCol + 2)) {
-      recursiveDivision(grid, rowStart, rowEnd, currentCol + 2, colEnd, 'horizontal', wallsInOrder, startNode, endNode);
-    } else {
-      recursiveDivision(grid, rowStart, rowEnd, currentCol + 2, colEnd, 'vertical', wallsInOrder, startNode, endNode);
-    }
+const indicesWithParity = (from: number, to: number, parity: 0 | 1): number[] => {
+  const indices: number[] = [];
+  for (let i = from; i <= to; i++) {
+    if (i % 2 === parity) indices.push(i);
   }
+  return indices;
 };
+
+const randomItem = <T>(items: T[], random: Random): T => items[Math.floor(random() * items.length)];
@@ -0,0 +1,22 @@
+// 'hex' swaps the square board for hexagonal cells with six neighbours
+export type MovementModel = '4-way' | '8-way' | 'hex';
+
+// What a diagonal step needs from the two orthogonal cells it passes between:
+// nothing, at least one of them open (no squeezing between two walls), or both open
+export type CornerCutting = 'allow' | 'disallow' | 'both-open';
+
+export interface MovementSettings {
+  model: MovementModel;
+  cornerCutting: CornerCutting;
+}
+
+export const DEFAULT_MOVEMENT: MovementSettings = {
+  model: '4-way',
+  cornerCutting: 'disallow',
+};
+
+export const cornerCuttingLabels: Record<CornerCutting, string> = {
+  allow: 'Allow corner cutting',
+  disallow: 'Disallow squeezing through',
+  'both-open': 'Require both sides open',
+};
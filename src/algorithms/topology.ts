@@ -0,0 +1,153 @@
+import { NodeType } from '@/types/Node';
+import { DEFAULT_TERRAIN_PALETTE, TerrainPalette } from '@/types/Terrain';
+import { HeuristicType, heuristicDistance, hexHeuristicDistance } from './heuristics';
+import { CornerCutting, DEFAULT_MOVEMENT, MovementSettings } from './movement';
+
+// How cells connect, as seen by searches and generators. Nothing else indexes
+// the grid to find neighbours, so a new connectivity mode only needs a new
+// topology.
+export interface Topology {
+  // Every cell one step away, walls included
+  adjacent: (node: NodeType) => NodeType[];
+  // Cells a search may step to: adjacent, open and allowed by the movement rules
+  neighbors: (node: NodeType) => NodeType[];
+  // Cells sharing an edge with this one, whatever the movement model. Generators
+  // carve along these so their passages work for every model on the board.
+  sides: (node: NodeType) => NodeType[];
+  // Cells sharing an edge or a corner, and how many a cell away from the
+  // border has; cave smoothing counts walls over these
+  touching: (node: NodeType) => NodeType[];
+  touchingSize: number;
+  // Cost of the step from -> to; entering a cell costs what its terrain does
+  edgeCost: (from: NodeType, to: NodeType) => number;
+  heuristic: (type: HeuristicType, node: NodeType, target: NodeType) => number;
+  // Stable key for a cell, matching the `node-<id>` element ids of the grid
+  nodeId: (node: NodeType) => string;
+}
+
+const openSidesRequired: Record<CornerCutting, number> = {
+  allow: 0,
+  disallow: 1,
+  'both-open': 2,
+};
+
+const ORTHOGONAL_STEPS = [
+  [-1, 0],
+  [1, 0],
+  [0, -1],
+  [0, 1],
+];
+
+const DIAGONAL_STEPS = [
+  [-1, -1],
+  [-1, 1],
+  [1, -1],
+  [1, 1],
+];
+
+export const cellCost = (node: NodeType, palette: TerrainPalette = DEFAULT_TERRAIN_PALETTE): number =>
+  node.terrain ? palette[node.terrain].cost : 1;
+
+// Square cells with 4-way or 8-way movement. Orthogonal neighbours come first,
+// in the same order for both models, so 8-way searches only add to the 4-way
+// expansion. Diagonal steps are √2 long.
+export const createGridTopology = (
+  grid: NodeType[][],
+  { model, cornerCutting }: MovementSettings = DEFAULT_MOVEMENT,
+  palette: TerrainPalette = DEFAULT_TERRAIN_PALETTE
+): Topology => {
+  const inGrid = (row: number, col: number) => row >= 0 && row < grid.length && col >= 0 && col < grid[0].length;
+  const isOpen = (row: number, col: number) => inGrid(row, col) && !grid[row][col].isWall;
+  const cellsAt = (steps: number[][]) => ({ row, col }: NodeType) =>
+    steps.filter(([dr, dc]) => inGrid(row + dr, col + dc)).map(([dr, dc]) => grid[row + dr][col + dc]);
+  const sides = cellsAt(ORTHOGONAL_STEPS);
+  const touching = cellsAt([...ORTHOGONAL_STEPS, ...DIAGONAL_STEPS]);
+  const adjacent = model === '8-way' ? touching : sides;
+
+  const neighbors = (node: NodeType) =>
+    adjacent(node).filter((neighbor) => {
+      if (neighbor.isWall) return false;
+      const dr = neighbor.row - node.row;
+      const dc = neighbor.col - node.col;
+      if (dr === 0 || dc === 0) return true;
+      const openSides = Number(isOpen(node.row + dr, node.col)) + Number(isOpen(node.row, node.col + dc));
+      return openSides >= openSidesRequired[cornerCutting];
+    });
+
+  const edgeCost = (from: NodeType, to: NodeType) =>
+    cellCost(to, palette) * (from.row !== to.row && from.col !== to.col ? Math.SQRT2 : 1);
+
+  return {
+    adjacent,
+    neighbors,
+    sides,
+    touching,
+    touchingSize: 8,
+    edgeCost,
+    heuristic: heuristicDistance,
+    nodeId: ({ row, col }) => `${row}-${col}`,
+  };
+};
+
+// Hex neighbours in the odd-r layout, where odd rows sit half a cell to the
+// right, so the columns reachable above and below depend on the row parity
+const HEX_STEPS = [
+  [
+    [0, -1],
+    [0, 1],
+    [-1, -1],
+    [-1, 0],
+    [1, -1],
+    [1, 0],
+  ],
+  [
+    [0, -1],
+    [0, 1],
+    [-1, 0],
+    [-1, 1],
+    [1, 0],
+    [1, 1],
+  ],
+];
+
+// Hexagonal cells with six equally long steps, so there are no corners to cut
+export const createHexTopology = (
+  grid: NodeType[][],
+  palette: TerrainPalette = DEFAULT_TERRAIN_PALETTE
+): Topology => {
+  const inGrid = (row: number, col: number) => row >= 0 && row < grid.length && col >= 0 && col < grid[0].length;
+
+  const adjacent = ({ row, col }: NodeType) =>
+    HEX_STEPS[row & 1].filter(([dr, dc]) => inGrid(row + dr, col + dc)).map(([dr, dc]) => grid[row + dr][col + dc]);
+
+  return {
+    adjacent,
+    neighbors: (node) => adjacent(node).filter((neighbor) => !neighbor.isWall),
+    sides: adjacent,
+    touching: adjacent,
+    touchingSize: 6,
+    edgeCost: (_from, to) => cellCost(to, palette),
+    heuristic: hexHeuristicDistance,
+    nodeId: ({ row, col }) => `${row}-${col}`,
+  };
+};
+
+export const createTopology = (
+  grid: NodeType[][],
+  movement: MovementSettings = DEFAULT_MOVEMENT,
+  palette: TerrainPalette = DEFAULT_TERRAIN_PALETTE
+): Topology =>
+  movement.model === 'hex' ? createHexTopology(grid, palette) : createGridTopology(grid, movement, palette);
+
+// Follows previousNode links back from the end
+export const getNodesInShortestPathOrder = (endNode: NodeType): NodeType[] => {
+  const nodesInShortestPathOrder: NodeType[] = [];
+  let currentNode: NodeType | null = endNode;
+
+  while (currentNode !== null) {
+    nodesInShortestPathOrder.unshift(currentNode);
+    currentNode = currentNode.previousNode;
+  }
+
+  return nodesInShortestPathOrder;
+};
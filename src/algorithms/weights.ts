@@ -0,0 +1,139 @@
+import { NodeType } from '@/types/Node';
+import { DEFAULT_TERRAIN_PALETTE, TerrainPalette, TerrainType } from '@/types/Terrain';
+import { Random } from '@/lib/random';
+
+// Scatter weights isolated cells; the noise patterns cover the whole grid
+// with smoothly varying terrain
+export type WeightPattern = 'scatter' | 'value' | 'perlin';
+
+export interface WeightSettings {
+  pattern: WeightPattern;
+  density: number; // scatter: share of open cells that get terrain, 0 to 1
+  terrains: TerrainType[]; // terrains the generator may place
+  noiseScale: number; // noise: size of the largest features, in cells
+  octaves: number; // noise: layers of finer detail added on top, each at double frequency and half strength
+}
+
+export const DEFAULT_WEIGHT_SETTINGS: WeightSettings = {
+  pattern: 'scatter',
+  density: 0.2,
+  terrains: ['grass', 'sand', 'forest', 'mud', 'water'],
+  noiseScale: 10,
+  octaves: 3,
+};
+
+export const weightPatternLabels: Record<WeightPattern, string> = {
+  scatter: 'Random Scatter',
+  value: 'Value Noise',
+  perlin: 'Perlin Noise',
+};
+
+export const generateWeights = (
+  grid: NodeType[][],
+  settings: WeightSettings,
+  palette: TerrainPalette = DEFAULT_TERRAIN_PALETTE,
+  random: Random = Math.random
+): NodeType[][] =>
+  settings.pattern === 'scatter'
+    ? generateRandomWeights(grid, settings, random)
+    : generateNoiseWeights(grid, settings, palette, random);
+
+// Replaces all terrain with a fresh random scattering. Walls, start and end
+// are left alone so the edited map only gains terrain.
+export const generateRandomWeights = (
+  grid: NodeType[][],
+  { density, terrains }: WeightSettings,
+  random: Random = Math.random
+): NodeType[][] =>
+  grid.map((row) =>
+    row.map((node) => {
+      const newNode: NodeType = { ...node, terrain: null };
+      if (node.isStart || node.isEnd || node.isWall || terrains.length === 0) return newNode;
+
+      if (random() < density) {
+        newNode.terrain = terrains[Math.floor(random() * terrains.length)];
+      }
+      return newNode;
+    })
+  );
+
+// Fills every open cell with terrain from fractal noise. The chosen terrains
+// split the height range into equal bands, cheapest lowest, so the map reads
+// as a cost landscape.
+export const generateNoiseWeights = (
+  grid: NodeType[][],
+  { pattern, terrains, noiseScale, octaves }: WeightSettings,
+  palette: TerrainPalette = DEFAULT_TERRAIN_PALETTE,
+  random: Random = Math.random
+): NodeType[][] => {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const layers = Array.from({ length: octaves }, (_, octave) =>
+    createNoiseLayer(pattern === 'perlin' ? 'perlin' : 'value', rows, cols, noiseScale / 2 ** octave, random)
+  );
+
+  const heights = grid.map((row) =>
+    row.map(({ row, col }) => layers.reduce((sum, sample, octave) => sum + sample(row, col) / 2 ** octave, 0))
+  );
+  const flat = heights.flat();
+  const low = Math.min(...flat);
+  const range = Math.max(...flat) - low || 1;
+  const bands = [...terrains].sort((a, b) => palette[a].cost - palette[b].cost);
+
+  return grid.map((row) =>
+    row.map((node) => {
+      const newNode: NodeType = { ...node, terrain: null };
+      if (node.isStart || node.isEnd || node.isWall || bands.length === 0) return newNode;
+
+      const height = (heights[node.row][node.col] - low) / range;
+      newNode.terrain = bands[Math.min(Math.floor(height * bands.length), bands.length - 1)];
+      return newNode;
+    })
+  );
+};
+
+// One octave of noise on a lattice with the given spacing in cells. Value
+// noise blends random heights at the lattice points; Perlin noise blends
+// random gradients, which avoids value noise's blocky look.
+const createNoiseLayer = (
+  type: 'value' | 'perlin',
+  rows: number,
+  cols: number,
+  spacing: number,
+  random: Random
+): ((row: number, col: number) => number) => {
+  const cellSize = Math.max(spacing, 1);
+  const latticeRows = Math.ceil(rows / cellSize) + 2;
+  const latticeCols = Math.ceil(cols / cellSize) + 2;
+  const lattice = Array.from({ length: latticeRows }, () =>
+    Array.from({ length: latticeCols }, () => {
+      const angle = random() * 2 * Math.PI;
+      return { value: random(), gx: Math.cos(angle), gy: Math.sin(angle) };
+    })
+  );
+
+  return (row, col) => {
+    const y = row / cellSize;
+    const x = col / cellSize;
+    const y0 = Math.floor(y);
+    const x0 = Math.floor(x);
+    const fy = y - y0;
+    const fx = x - x0;
+
+    const corner = (dy: number, dx: number) => {
+      const point = lattice[y0 + dy][x0 + dx];
+      return type === 'value' ? point.value : point.gx * (fx - dx) + point.gy * (fy - dy);
+    };
+
+    const sy = fade(fy);
+    const sx = fade(fx);
+    const top = lerp(corner(0, 0), corner(0, 1), sx);
+    const bottom = lerp(corner(1, 0), corner(1, 1), sx);
+    return lerp(top, bottom, sy);
+  };
+};
+
+// Perlin's quintic smoothstep, flat at both ends so lattice lines do not show
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
@@ -1,5 +1,6 @@
-import { Play, Trash2, Grid3X3, RotateCcw, Gauge } from 'lucide-react';
+import { Play, Pause, Square, StepBack, StepForward, Trash2, Grid3X3, RotateCcw, Gauge, Dices, BrickWall, Mountain, Eraser, Hash, Lock, LockOpen, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import {
   Select,
   SelectContent,
@@ -8,19 +9,102 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { HeuristicType, heuristicLabels, isAdmissible } from '@/algorithms/heuristics';
+import { CornerCutting, MovementModel, MovementSettings, cornerCuttingLabels } from '@/algorithms/movement';
+import { unweightedAlgorithms } from '@/algorithms/catalog';
+import { WeightPattern, WeightSettings, weightPatternLabels } from '@/algorithms/weights';
+import {
+  GrowingTreeStrategy,
+  MazeGeneratorType,
+  MazeSettings,
+  growingTreeStrategyLabels,
+  mazeGeneratorLabels,
+  openLayoutGenerators,
+} from '@/algorithms/maze';
+import { DrawMode } from '@/types/Brush';
+import { TerrainPalette, TerrainType, terrainLabels } from '@/types/Terrain';
+import { MAX_SEED, SeedSettings } from '@/lib/random';
+
+const drawTools = [
+  { mode: 'wall' as const, label: 'Wall', icon: BrickWall },
+  { mode: 'terrain' as const, label: 'Terrain', icon: Mountain },
+  { mode: 'erase' as const, label: 'Erase', icon: Eraser },
+];
+
+interface SeedFieldProps {
+  label: string;
+  seed: SeedSettings;
+  onChange: (seed: SeedSettings) => void;
+  disabled: boolean;
+}
+
+const SeedField = ({ label, seed, onChange, disabled }: SeedFieldProps) => (
+  <>
+    <span className="text-xs text-muted-foreground">{label}</span>
+    <Input
+      type="number"
+      min={0}
+      max={MAX_SEED}
+      value={seed.value}
+      onChange={(event) => {
+        const value = Number.parseInt(event.target.value, 10);
+        // A typed seed is meant to be reproduced, so keep it
+        onChange({ value: Number.isNaN(value) ? 0 : Math.min(Math.max(value, 0), MAX_SEED), locked: true });
+      }}
+      className="w-20 h-7 px-2 text-xs font-mono"
+      disabled={disabled}
+    />
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => onChange({ ...seed, locked: !seed.locked })}
+      className={`h-7 w-7 p-0 ${seed.locked ? "text-primary" : "text-muted-foreground"}`}
+      title={seed.locked ? "Seed kept for every generate" : "New seed on every generate"}
+    >
+      {seed.locked ? <Lock className="w-3 h-3" /> : <LockOpen className="w-3 h-3" />}
+    </Button>
+  </>
+);
 
 interface ControlsProps {
   algorithm: string;
   graphType: "weighted" | "unweighted" | null;
   setGraphType: (v: "weighted" | "unweighted") => void;
   onAlgorithmChange: (value: string) => void;
+  heuristic: HeuristicType;
+  onHeuristicChange: (value: HeuristicType) => void;
+  heuristicWeight: number;
+  onHeuristicWeightChange: (value: number[]) => void;
+  movement: MovementSettings;
+  onMovementChange: (movement: MovementSettings) => void;
   onVisualize: () => void;
+  onStop: () => void;
   onClear: () => void;
   onReset: () => void;
   onGenerateMaze: () => void;
+  mazeSettings: MazeSettings;
+  onMazeSettingsChange: (settings: MazeSettings) => void;
+  weightSettings: WeightSettings;
+  onWeightSettingsChange: (settings: WeightSettings) => void;
+  onRandomizeWeights: () => void;
+  mazeSeed: SeedSettings;
+  onMazeSeedChange: (seed: SeedSettings) => void;
+  terrainSeed: SeedSettings;
+  onTerrainSeedChange: (seed: SeedSettings) => void;
+  drawMode: DrawMode;
+  onDrawModeChange: (mode: DrawMode) => void;
+  brushTerrain: TerrainType;
+  onBrushTerrainChange: (terrain: TerrainType) => void;
+  terrainPalette: TerrainPalette;
   isRunning: boolean;
   speed: number;
   onSpeedChange: (value: number[]) => void;
+  isPaused: boolean;
+  onTogglePause: () => void;
+  playbackPosition: number;
+  playbackLength: number;
+  onSeek: (position: number) => void;
 }
 
 const Controls = ({
@@ -28,14 +112,43 @@ const Controls = ({
   graphType, // Added this
   setGraphType, // Added this
   onAlgorithmChange,
+  heuristic,
+  onHeuristicChange,
+  heuristicWeight,
+  onHeuristicWeightChange,
+  movement,
+  onMovementChange,
   onVisualize,
+  onStop,
   onClear,
   onReset,
   onGenerateMaze,
+  mazeSettings,
+  onMazeSettingsChange,
+  weightSettings,
+  onWeightSettingsChange,
+  onRandomizeWeights,
+  mazeSeed,
+  onMazeSeedChange,
+  terrainSeed,
+  onTerrainSeedChange,
+  drawMode,
+  onDrawModeChange,
+  brushTerrain,
+  onBrushTerrainChange,
+  terrainPalette,
   isRunning,
   speed,
   onSpeedChange,
+  isPaused,
+  onTogglePause,
+  playbackPosition,
+  playbackLength,
+  onSeek,
 }: ControlsProps) => {
+  const hasTimeline = playbackLength > 0;
+  const isPlaying = hasTimeline && !isPaused && playbackPosition < playbackLength;
+
   return (
     <div className="bg-card/50 backdrop-blur-md border-b border-border/50 px-6 py-4">
       <div className="flex flex-wrap items-center gap-4">
@@ -49,11 +162,17 @@ const Controls = ({
             <SelectContent className="bg-card/95 backdrop-blur-md border-border/50">
               <SelectItem value="dijkstra">Dijkstra's Algorithm</SelectItem>
               <SelectItem value="bfs">Breadth-First Search</SelectItem>
+              <SelectItem value="astar">A* Search</SelectItem>
+              <SelectItem value="greedy">Greedy Best-First Search</SelectItem>
+              <SelectItem value="dfs">Depth-First Search (Stack)</SelectItem>
+              <SelectItem value="dfs-recursive">Depth-First Search (Recursive)</SelectItem>
+              <SelectItem value="bidirectional-bfs">Bidirectional BFS</SelectItem>
+              <SelectItem value="bidirectional-dijkstra">Bidirectional Dijkstra</SelectItem>
             </SelectContent>
           </Select>
 
-          {/* ADDED: Weighted/Unweighted Toggle for Dijkstra */}
-          {algorithm === "dijkstra" && (
+          {/* ADDED: Weighted/Unweighted Toggle for the cost-aware algorithms */}
+          {!unweightedAlgorithms.includes(algorithm) && (
             <div className="flex gap-1 ml-2 bg-secondary/30 p-1 rounded-md border border-border/50">
               <Button
                 variant={graphType === "weighted" ? "default" : "ghost"}
@@ -77,6 +196,128 @@ const Controls = ({
           )}
         </div>
 
+        {/* Heuristic Settings for A* and Greedy Best-First */}
+        {(algorithm === "astar" || algorithm === "greedy") && (
+          <div className="flex items-center gap-3 btn-glass rounded-lg px-4 py-2">
+            <span className="text-sm text-muted-foreground">Heuristic:</span>
+            <Select
+              value={heuristic}
+              onValueChange={(value) => onHeuristicChange(value as HeuristicType)}
+              disabled={isRunning}
+            >
+              <SelectTrigger className="w-32 h-7 btn-glass border-border/50 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card/95 backdrop-blur-md border-border/50">
+                {(Object.keys(heuristicLabels) as HeuristicType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {heuristicLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {algorithm === "astar" && (
+              <>
+                <span className="text-sm text-muted-foreground">Weight:</span>
+                <Slider
+                  value={[heuristicWeight]}
+                  onValueChange={onHeuristicWeightChange}
+                  min={1}
+                  max={5}
+                  step={0.5}
+                  className="w-24"
+                  disabled={isRunning}
+                />
+                <span className="text-xs font-mono text-primary w-10">×{heuristicWeight}</span>
+                {!isAdmissible(heuristic, movement.model) && (
+                  <span className="flex items-center gap-1 text-xs text-destructive">
+                    <AlertTriangle className="w-3 h-3" />
+                    Overestimates with {movement.model} moves; the path may not be shortest
+                  </span>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Movement model: 4-way, 8-way with a corner-cutting rule for diagonals, or a hex board */}
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground font-medium">Moves:</span>
+          <div className="flex gap-1 bg-secondary/30 p-1 rounded-md border border-border/50">
+            {(["4-way", "8-way", "hex"] as MovementModel[]).map((model) => (
+              <Button
+                key={model}
+                variant={movement.model === model ? "default" : "ghost"}
+                size="sm"
+                onClick={() => onMovementChange({ ...movement, model })}
+                className={`h-7 px-3 text-xs ${movement.model === model ? "bg-primary shadow-lg" : ""}`}
+                disabled={isRunning}
+              >
+                {model}
+              </Button>
+            ))}
+          </div>
+          {movement.model === "8-way" && (
+            <Select
+              value={movement.cornerCutting}
+              onValueChange={(value) => onMovementChange({ ...movement, cornerCutting: value as CornerCutting })}
+              disabled={isRunning}
+            >
+              <SelectTrigger className="w-52 h-7 btn-glass border-border/50 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card/95 backdrop-blur-md border-border/50">
+                {(Object.keys(cornerCuttingLabels) as CornerCutting[]).map((rule) => (
+                  <SelectItem key={rule} value={rule}>
+                    {cornerCuttingLabels[rule]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {/* Drawing Toolbar */}
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground font-medium">Draw:</span>
+          <div className="flex gap-1 bg-secondary/30 p-1 rounded-md border border-border/50">
+            {drawTools.map(({ mode, label, icon: Icon }) => (
+              <Button
+                key={mode}
+                variant={drawMode === mode ? "default" : "ghost"}
+                size="sm"
+                onClick={() => onDrawModeChange(mode)}
+                className={`h-7 px-3 text-xs gap-1 ${drawMode === mode ? "bg-primary shadow-lg" : ""}`}
+                disabled={isRunning}
+              >
+                <Icon className="w-3 h-3" />
+                {label}
+              </Button>
+            ))}
+          </div>
+          {drawMode === "terrain" && (
+            <Select
+              value={brushTerrain}
+              onValueChange={(value) => onBrushTerrainChange(value as TerrainType)}
+              disabled={isRunning}
+            >
+              <SelectTrigger className="w-36 h-7 btn-glass border-border/50 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card/95 backdrop-blur-md border-border/50">
+                {(Object.keys(terrainLabels) as TerrainType[]).map((terrain) => (
+                  <SelectItem key={terrain} value={terrain}>
+                    <span className="flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: terrainPalette[terrain].color }} />
+                      {terrainLabels[terrain]} ({terrainPalette[terrain].cost})
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
         {/* Speed Control */}
         <div className="flex items-center gap-3 btn-glass rounded-lg px-4 py-2">
           <Gauge className="w-4 h-4 text-primary" />
@@ -92,6 +333,14 @@ const Controls = ({
           <span className="text-xs font-mono text-primary w-10">{speed}%</span>
         </div>
 
+        {/* Seeds for maze and terrain generation; unlocked seeds re-roll on every generate */}
+        <div className="flex items-center gap-2 btn-glass rounded-lg px-3 py-1.5">
+          <Hash className="w-4 h-4 text-primary" />
+          <span className="text-sm text-muted-foreground">Seeds:</span>
+          <SeedField label="Maze" seed={mazeSeed} onChange={onMazeSeedChange} disabled={isRunning} />
+          <SeedField label="Terrain" seed={terrainSeed} onChange={onTerrainSeedChange} disabled={isRunning} />
+        </div>
+
         {/* Divider */}
         <div className="h-8 w-px bg-border/50" />
 
@@ -107,14 +356,316 @@ const Controls = ({
           </Button>
 
           <Button
-            onClick={onGenerateMaze}
-            disabled={isRunning}
-            className="btn-glass gap-2"
+            onClick={onStop}
+            disabled={!isRunning}
+            className="btn-glass gap-2 text-destructive hover:text-destructive"
           >
-            <Grid3X3 className="w-4 h-4" />
-            Generate Maze
+            <Square className="w-4 h-4" fill="currentColor" />
+            Stop
           </Button>
 
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button disabled={isRunning} className="btn-glass gap-2">
+                <Grid3X3 className="w-4 h-4" />
+                Generate Maze
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 bg-card/95 backdrop-blur-md border-border/50 space-y-4">
+              <div className="space-y-2">
+                <span className="text-sm text-muted-foreground">Generator</span>
+                <Select
+                  value={mazeSettings.generator}
+                  onValueChange={(value) =>
+                    onMazeSettingsChange({ ...mazeSettings, generator: value as MazeGeneratorType })
+                  }
+                >
+                  <SelectTrigger className="btn-glass border-border/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card/95 backdrop-blur-md border-border/50">
+                    {(Object.keys(mazeGeneratorLabels) as MazeGeneratorType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {mazeGeneratorLabels[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {mazeSettings.generator === "random" && (
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Wall density</span>
+                    <span className="font-mono text-primary">{Math.round(mazeSettings.wallDensity * 100)}%</span>
+                  </div>
+                  <Slider
+                    value={[mazeSettings.wallDensity * 100]}
+                    onValueChange={(value) =>
+                      onMazeSettingsChange({ ...mazeSettings, wallDensity: value[0] / 100 })
+                    }
+                    min={5}
+                    max={60}
+                    step={5}
+                  />
+                </div>
+              )}
+              {mazeSettings.generator === "recursive-division" && (
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Orientation bias</span>
+                    <span className="font-mono text-primary">
+                      {mazeSettings.orientationBias === 0
+                        ? "Shape"
+                        : `${Math.round(Math.abs(mazeSettings.orientationBias) * 100)}% ${
+                            mazeSettings.orientationBias > 0 ? "horizontal" : "vertical"
+                          }`}
+                    </span>
+                  </div>
+                  <Slider
+                    value={[mazeSettings.orientationBias * 100]}
+                    onValueChange={(value) =>
+                      onMazeSettingsChange({ ...mazeSettings, orientationBias: value[0] / 100 })
+                    }
+                    min={-100}
+                    max={100}
+                    step={10}
+                  />
+                  <div className="flex justify-between text-[10px] text-muted-foreground">
+                    <span>Vertical</span>
+                    <span>Horizontal</span>
+                  </div>
+                </div>
+              )}
+              {mazeSettings.generator === "growing-tree" && (
+                <div className="space-y-2">
+                  <span className="text-sm text-muted-foreground">Cell selection</span>
+                  <Select
+                    value={mazeSettings.growingTreeStrategy}
+                    onValueChange={(value) =>
+                      onMazeSettingsChange({ ...mazeSettings, growingTreeStrategy: value as GrowingTreeStrategy })
+                    }
+                  >
+                    <SelectTrigger className="btn-glass border-border/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card/95 backdrop-blur-md border-border/50">
+                      {(Object.keys(growingTreeStrategyLabels) as GrowingTreeStrategy[]).map((strategy) => (
+                        <SelectItem key={strategy} value={strategy}>
+                          {growingTreeStrategyLabels[strategy]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {mazeSettings.growingTreeStrategy === "mixed" && (
+                    <>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Newest share</span>
+                        <span className="font-mono text-primary">
+                          {Math.round(mazeSettings.growingTreeNewestShare * 100)}%
+                        </span>
+                      </div>
+                      <Slider
+                        value={[mazeSettings.growingTreeNewestShare * 100]}
+                        onValueChange={(value) =>
+                          onMazeSettingsChange({ ...mazeSettings, growingTreeNewestShare: value[0] / 100 })
+                        }
+                        min={0}
+                        max={100}
+                        step={5}
+                      />
+                      <div className="flex justify-between text-[10px] text-muted-foreground">
+                        <span>Random</span>
+                        <span>Newest</span>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+              {mazeSettings.generator === "cave" && (
+                <>
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Initial fill</span>
+                      <span className="font-mono text-primary">{Math.round(mazeSettings.caveFill * 100)}%</span>
+                    </div>
+                    <Slider
+                      value={[mazeSettings.caveFill * 100]}
+                      onValueChange={(value) => onMazeSettingsChange({ ...mazeSettings, caveFill: value[0] / 100 })}
+                      min={30}
+                      max={60}
+                      step={1}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Smoothing iterations</span>
+                      <span className="font-mono text-primary">{mazeSettings.caveIterations}</span>
+                    </div>
+                    <Slider
+                      value={[mazeSettings.caveIterations]}
+                      onValueChange={(value) => onMazeSettingsChange({ ...mazeSettings, caveIterations: value[0] })}
+                      min={0}
+                      max={10}
+                      step={1}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Birth / survival</span>
+                      <span className="font-mono text-primary">
+                        B{mazeSettings.caveBirthLimit} / S{mazeSettings.caveSurvivalLimit}
+                      </span>
+                    </div>
+                    <Slider
+                      value={[mazeSettings.caveBirthLimit]}
+                      onValueChange={(value) => onMazeSettingsChange({ ...mazeSettings, caveBirthLimit: value[0] })}
+                      min={1}
+                      max={8}
+                      step={1}
+                    />
+                    <Slider
+                      value={[mazeSettings.caveSurvivalLimit]}
+                      onValueChange={(value) => onMazeSettingsChange({ ...mazeSettings, caveSurvivalLimit: value[0] })}
+                      min={1}
+                      max={8}
+                      step={1}
+                    />
+                  </div>
+                </>
+              )}
+              {!openLayoutGenerators.includes(mazeSettings.generator) && (
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Braid (dead ends removed)</span>
+                    <span className="font-mono text-primary">{Math.round(mazeSettings.braidRatio * 100)}%</span>
+                  </div>
+                  <Slider
+                    value={[mazeSettings.braidRatio * 100]}
+                    onValueChange={(value) => onMazeSettingsChange({ ...mazeSettings, braidRatio: value[0] / 100 })}
+                    min={0}
+                    max={100}
+                    step={10}
+                  />
+                </div>
+              )}
+              <Button onClick={onGenerateMaze} disabled={isRunning} className="btn-glass-primary w-full gap-2">
+                <Grid3X3 className="w-4 h-4" />
+                Generate
+              </Button>
+            </PopoverContent>
+          </Popover>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button disabled={isRunning} className="btn-glass gap-2">
+                <Dices className="w-4 h-4" />
+                Randomize Terrain
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 bg-card/95 backdrop-blur-md border-border/50 space-y-4">
+              <div className="space-y-2">
+                <span className="text-sm text-muted-foreground">Pattern</span>
+                <Select
+                  value={weightSettings.pattern}
+                  onValueChange={(value) =>
+                    onWeightSettingsChange({
+                      ...weightSettings,
+                      pattern: value as WeightPattern,
+                    })
+                  }
+                >
+                  <SelectTrigger className="btn-glass border-border/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card/95 backdrop-blur-md border-border/50">
+                    {(Object.keys(weightPatternLabels) as WeightPattern[]).map((pattern) => (
+                      <SelectItem key={pattern} value={pattern}>
+                        {weightPatternLabels[pattern]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {weightSettings.pattern === "scatter" ? (
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Density</span>
+                    <span className="font-mono text-primary">{Math.round(weightSettings.density * 100)}%</span>
+                  </div>
+                  <Slider
+                    value={[weightSettings.density * 100]}
+                    onValueChange={(value) =>
+                      onWeightSettingsChange({ ...weightSettings, density: value[0] / 100 })
+                    }
+                    min={5}
+                    max={60}
+                    step={5}
+                  />
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Scale</span>
+                      <span className="font-mono text-primary">{weightSettings.noiseScale} cells</span>
+                    </div>
+                    <Slider
+                      value={[weightSettings.noiseScale]}
+                      onValueChange={(value) => onWeightSettingsChange({ ...weightSettings, noiseScale: value[0] })}
+                      min={2}
+                      max={30}
+                      step={1}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Octaves</span>
+                      <span className="font-mono text-primary">{weightSettings.octaves}</span>
+                    </div>
+                    <Slider
+                      value={[weightSettings.octaves]}
+                      onValueChange={(value) => onWeightSettingsChange({ ...weightSettings, octaves: value[0] })}
+                      min={1}
+                      max={5}
+                      step={1}
+                    />
+                  </div>
+                </>
+              )}
+              <div className="space-y-2">
+                <span className="text-sm text-muted-foreground">Terrains</span>
+                <div className="flex flex-wrap gap-1">
+                  {(Object.keys(terrainLabels) as TerrainType[]).map((terrain) => {
+                    const selected = weightSettings.terrains.includes(terrain);
+                    return (
+                      <Button
+                        key={terrain}
+                        variant={selected ? "default" : "ghost"}
+                        size="sm"
+                        onClick={() =>
+                          onWeightSettingsChange({
+                            ...weightSettings,
+                            terrains: selected
+                              ? weightSettings.terrains.filter((t) => t !== terrain)
+                              : [...weightSettings.terrains, terrain],
+                          })
+                        }
+                        className={`h-7 px-2 text-xs gap-1 ${selected ? "bg-primary shadow-lg" : ""}`}
+                      >
+                        <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: terrainPalette[terrain].color }} />
+                        {terrainLabels[terrain]}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+              <Button onClick={onRandomizeWeights} disabled={isRunning} className="btn-glass-primary w-full gap-2">
+                <Dices className="w-4 h-4" />
+                {weightSettings.pattern === "scatter" ? "Scatter Terrain" : "Generate Terrain"}
+              </Button>
+            </PopoverContent>
+          </Popover>
+
           <Button
             onClick={onReset}
             disabled={isRunning}
@@ -134,10 +685,56 @@ const Controls = ({
           </Button>
         </div>
 
+        {/* Playback Bar */}
+        <div className="flex items-center gap-2 btn-glass rounded-lg px-3 py-1.5">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onSeek(playbackPosition - 1)}
+            disabled={!hasTimeline || playbackPosition === 0}
+            className="h-7 w-7"
+            title="Step back"
+          >
+            <StepBack className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onTogglePause}
+            disabled={!hasTimeline || (!isPlaying && playbackPosition >= playbackLength)}
+            className="h-7 w-7"
+            title={isPlaying ? "Pause" : "Resume"}
+          >
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onSeek(playbackPosition + 1)}
+            disabled={!hasTimeline || playbackPosition >= playbackLength}
+            className="h-7 w-7"
+            title="Step forward"
+          >
+            <StepForward className="w-4 h-4" />
+          </Button>
+          <Slider
+            value={[playbackPosition]}
+            onValueChange={(value) => onSeek(value[0])}
+            min={0}
+            max={Math.max(playbackLength, 1)}
+            step={1}
+            className="w-40"
+            disabled={!hasTimeline}
+          />
+          <span className="text-xs font-mono text-primary w-20 text-right">
+            {playbackPosition}/{playbackLength}
+          </span>
+        </div>
+
         {/* Instructions */}
         <div className="ml-auto text-sm text-muted-foreground hidden lg:block">
-          <span className="text-primary font-medium">Tip:</span> Click & drag to draw walls.
-          Drag start/end markers to move them.
+          <span className="text-primary font-medium">Tip:</span> Click & drag to draw with the
+          selected brush. Drag start/end markers to move them.
         </div>
       </div>
     </div>
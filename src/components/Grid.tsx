@@ -1,40 +1,117 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import GridNode from './GridNode';
 import { NodeType, createNode, resetNode } from '@/types/Node';
-import { dijkstra, getNodesInShortestPathOrder } from '@/algorithms/dijkstra';
-import { bfs, getNodesInShortestPathOrder as bfsGetPath } from '@/algorithms/bfs';
-import { generateRecursiveBacktrackerMaze } from '@/algorithms/maze';
+import { DrawMode } from '@/types/Brush';
+import { TerrainPalette, TerrainType } from '@/types/Terrain';
+import { dijkstra } from '@/algorithms/dijkstra';
+import { bfs } from '@/algorithms/bfs';
+import { astar } from '@/algorithms/astar';
+import { greedyBestFirst } from '@/algorithms/greedy';
+import { dfs, dfsRecursive } from '@/algorithms/dfs';
+import { bidirectionalBfs, bidirectionalDijkstra } from '@/algorithms/bidirectional';
+import { SearchGenerator } from '@/algorithms/events';
+import { PlaybackStep, SearchTimeline, recordTimeline } from '@/lib/playback';
+import { HeuristicType } from '@/algorithms/heuristics';
+import { MovementSettings } from '@/algorithms/movement';
+import { Topology, createTopology } from '@/algorithms/topology';
+import {
+  MazeResult,
+  MazeSettings,
+  braidMaze,
+  generateAldousBroderMaze,
+  generateBinaryTreeMaze,
+  generateCaveMaze,
+  generateDungeonMaze,
+  generateEllerMaze,
+  generateGrowingTreeMaze,
+  generateHuntAndKillMaze,
+  generateKruskalMaze,
+  generatePrimMaze,
+  generateRandomMaze,
+  generateRecursiveBacktrackerMaze,
+  generateRecursiveMaze,
+  generateSidewinderMaze,
+  generateWilsonMaze,
+  openLayoutGenerators,
+} from '@/algorithms/maze';
+import { WeightSettings, generateWeights } from '@/algorithms/weights';
+import { Random, createRandom } from '@/lib/random';
+import { cn } from '@/lib/utils';
 
 const GRID_ROWS = 20;
 const GRID_COLS = 40;
 const DEFAULT_START = { row: 10, col: 5 };
 const DEFAULT_END = { row: 10, col: 35 };
 
+// Classes added to cells while animating a search, cleared by resetGrid
+const TRACE_CLASSES = [
+  'node-frontier-animation',
+  'node-decrease-key-animation',
+  'node-visited-animation',
+  'node-stack-animation',
+  'node-visited-start-animation',
+  'node-visited-end-animation',
+  'node-meeting-animation',
+  'node-path-animation',
+];
+
 interface GridProps {
   algorithm: string;
   graphType: "weighted" | "unweighted" | null;
+  heuristic: HeuristicType;
+  heuristicWeight: number;
+  movement: MovementSettings;
   speed: number;
   isRunning: boolean;
   setIsRunning: (running: boolean) => void;
   onStats: (visited: number, pathLength: number) => void;
+  isPaused: boolean;
+  seekTarget: number | null;
+  onSeekComplete: () => void;
+  onPlayback: (position: number, length: number) => void;
   triggerVisualize: boolean;
   triggerClear: boolean;
   triggerReset: boolean;
   triggerMaze: boolean;
+  triggerStop: boolean;
+  triggerWeights: boolean;
+  weightSettings: WeightSettings;
+  mazeSettings: MazeSettings;
+  mazeSeed: number;
+  terrainSeed: number;
+  drawMode: DrawMode;
+  brushTerrain: TerrainType;
+  terrainPalette: TerrainPalette;
   onActionComplete: () => void;
 }
 
 const Grid = ({
   algorithm,
   graphType,
+  heuristic,
+  heuristicWeight,
+  movement,
   speed,
   isRunning,
   setIsRunning,
   onStats,
+  isPaused,
+  seekTarget,
+  onSeekComplete,
+  onPlayback,
   triggerVisualize,
   triggerClear,
   triggerReset,
   triggerMaze,
+  triggerStop,
+  triggerWeights,
+  weightSettings,
+  mazeSettings,
+  mazeSeed,
+  terrainSeed,
+  drawMode,
+  brushTerrain,
+  terrainPalette,
   onActionComplete,
 }: GridProps) => {
   const [grid, setGrid] = useState<NodeType[][]>([]);
@@ -44,11 +121,41 @@ const Grid = ({
   const [endPos, setEndPos] = useState(DEFAULT_END);
   
   const speedRef = useRef(speed);
+  const pausedRef = useRef(isPaused);
+  // Recorded run being played back, and how many of its steps are on screen
+  const timelineRef = useRef<SearchTimeline | null>(null);
+  const positionRef = useRef(0);
+  const playingRef = useRef(false);
+  // Bumped to cancel a running maze animation
+  const mazeRunRef = useRef(0);
   
   useEffect(() => {
     speedRef.current = speed;
   }, [speed]);
 
+  useEffect(() => {
+    pausedRef.current = isPaused;
+    const timeline = timelineRef.current;
+    if (!isPaused && timeline && positionRef.current < timeline.steps.length) {
+      playTimeline();
+    }
+  }, [isPaused]);
+
+  useEffect(() => {
+    if (seekTarget === null) return;
+    const timeline = timelineRef.current;
+    if (timeline) {
+      const target = Math.max(0, Math.min(seekTarget, timeline.steps.length));
+      if (target === positionRef.current + 1) {
+        renderStep(timeline.steps[positionRef.current], true);
+        showPosition(target);
+      } else {
+        renderTimelineAt(target);
+      }
+    }
+    onSeekComplete();
+  }, [seekTarget]);
+
   const initializeGrid = useCallback(() => {
     const newGrid: NodeType[][] = [];
     for (let row = 0; row < GRID_ROWS; row++) {
@@ -99,6 +206,7 @@ const Grid = ({
         }
         newGrid.push(currentRow);
       }
+      discardTimeline();
       setGrid(newGrid);
       onStats(0, 0);
       onActionComplete();
@@ -114,26 +222,96 @@ const Grid = ({
 
   useEffect(() => {
     if (triggerMaze && !isRunning) {
-      const newGrid = generateRecursiveBacktrackerMaze(GRID_ROWS, GRID_COLS, startPos, endPos);
-      setGrid(newGrid);
+      discardTimeline();
       onStats(0, 0);
+      animateMaze(generateMaze());
       onActionComplete();
     }
   }, [triggerMaze]);
 
+  // Every random choice comes from the seed, so a seed and settings pair always
+  // rebuilds the same maze
+  const generateMaze = (): MazeResult => {
+    const random = createRandom(mazeSeed);
+    const result = createMaze(random);
+    return openLayoutGenerators.includes(mazeSettings.generator) || mazeSettings.braidRatio === 0
+      ? result
+      : braidMaze(result, mazeSettings.braidRatio, movement, random);
+  };
+
+  const createMaze = (random: Random): MazeResult => {
+    switch (mazeSettings.generator) {
+      case 'growing-tree':
+        return generateGrowingTreeMaze(
+          GRID_ROWS,
+          GRID_COLS,
+          startPos,
+          endPos,
+          mazeSettings.growingTreeStrategy,
+          mazeSettings.growingTreeNewestShare,
+          movement,
+          random
+        );
+      case 'prim':
+        return generatePrimMaze(GRID_ROWS, GRID_COLS, startPos, endPos, movement, random);
+      case 'kruskal':
+        return generateKruskalMaze(GRID_ROWS, GRID_COLS, startPos, endPos, movement, random);
+      case 'wilson':
+        return generateWilsonMaze(GRID_ROWS, GRID_COLS, startPos, endPos, movement, random);
+      case 'aldous-broder':
+        return generateAldousBroderMaze(GRID_ROWS, GRID_COLS, startPos, endPos, movement, random);
+      case 'eller':
+        return generateEllerMaze(GRID_ROWS, GRID_COLS, startPos, endPos, movement, random);
+      case 'sidewinder':
+        return generateSidewinderMaze(GRID_ROWS, GRID_COLS, startPos, endPos, movement, random);
+      case 'binary-tree':
+        return generateBinaryTreeMaze(GRID_ROWS, GRID_COLS, startPos, endPos, movement, random);
+      case 'hunt-and-kill':
+        return generateHuntAndKillMaze(GRID_ROWS, GRID_COLS, startPos, endPos, movement, random);
+      case 'random':
+        return generateRandomMaze(grid, startPos, endPos, mazeSettings.wallDensity, random);
+      case 'cave':
+        return generateCaveMaze(
+          grid,
+          startPos,
+          endPos,
+          mazeSettings.caveFill,
+          mazeSettings.caveIterations,
+          mazeSettings.caveBirthLimit,
+          mazeSettings.caveSurvivalLimit,
+          movement,
+          random
+        );
+      case 'dungeon':
+        return generateDungeonMaze(GRID_ROWS, GRID_COLS, random);
+      case 'recursive-division':
+        return generateRecursiveMaze(grid, startPos, endPos, mazeSettings.orientationBias, movement, random);
+      default:
+        return generateRecursiveBacktrackerMaze(GRID_ROWS, GRID_COLS, startPos, endPos, movement, random);
+    }
+  };
+
+  useEffect(() => {
+    if (triggerWeights && !isRunning) {
+      discardTimeline();
+      setGrid(generateWeights(grid, weightSettings, terrainPalette, createRandom(terrainSeed)));
+      onStats(0, 0);
+      onActionComplete();
+    }
+  }, [triggerWeights]);
+
+  useEffect(() => {
+    if (triggerStop && isRunning) {
+      stopPlayback();
+      mazeRunRef.current++;
+    }
+    if (triggerStop) onActionComplete();
+  }, [triggerStop]);
+
   const resetGrid = useCallback(() => {
-    const newGrid = grid.map((row) =>
-      row.map((node) => {
-        const element = document.getElementById(`node-${node.row}-${node.col}`);
-        if (element) {
-          element.className = element.className
-            .replace('node-visited-animation', '')
-            .replace('node-path-animation', '');
-        }
-        // Preserve the weight property when resetting the visual trace
-        return { ...resetNode(node), isWeight: node.isWeight, weight: node.weight };
-      })
-    );
+    discardTimeline();
+    // resetNode keeps the terrain, so only the visual trace is cleared
+    const newGrid = grid.map((row) => row.map(resetNode));
     setGrid(newGrid);
     onStats(0, 0);
   }, [grid, onStats]);
@@ -147,9 +325,11 @@ const Grid = ({
     } else if (node.isEnd) {
       setMovingNode('end');
     } else {
-      const newGrid = toggleWall(grid, row, col);
+      const newGrid = applyBrush(grid, row, col);
       setGrid(newGrid);
     }
+    // Editing the grid makes the recorded run stale
+    if (timelineRef.current) discardTimeline();
     setMouseIsPressed(true);
   };
 
@@ -163,7 +343,7 @@ const Grid = ({
     } else {
       const node = grid[row][col];
       if (!node.isStart && !node.isEnd) {
-        const newGrid = toggleWall(grid, row, col);
+        const newGrid = applyBrush(grid, row, col);
         setGrid(newGrid);
       }
     }
@@ -200,11 +380,39 @@ const Grid = ({
     setEndPos({ row, col });
   };
 
+  const applyBrush = (grid: NodeType[][], row: number, col: number): NodeType[][] => {
+    if (drawMode === 'terrain') {
+      return updateNode(grid, row, col, (node) => ({
+        ...node,
+        isWall: false,
+        terrain: brushTerrain,
+      }));
+    }
+    if (drawMode === 'erase') {
+      return updateNode(grid, row, col, (node) => ({
+        ...node,
+        isWall: false,
+        terrain: null,
+      }));
+    }
+    return toggleWall(grid, row, col);
+  };
+
+  const updateNode = (
+    grid: NodeType[][],
+    row: number,
+    col: number,
+    update: (node: NodeType) => NodeType
+  ): NodeType[][] =>
+    grid.map((r) =>
+      r.map((node) => (node.row === row && node.col === col ? update(node) : node))
+    );
+
   const toggleWall = (grid: NodeType[][], row: number, col: number): NodeType[][] => {
     const newGrid = grid.map((r) =>
       r.map((node) => {
         if (node.row === row && node.col === col) {
-          return { ...node, isWall: !node.isWall, isWeight: false };
+          return { ...node, isWall: !node.isWall, terrain: null };
         }
         return node;
       })
@@ -212,83 +420,253 @@ const Grid = ({
     return newGrid;
   };
 
-  const visualize = async () => {
+  const visualize = () => {
     resetGrid();
     setIsRunning(true);
 
-    // Create a fresh grid and apply random weights if in Weighted mode
+    // Search a private copy so the run never changes the edited map. In
+    // Unweighted mode the terrain stays on screen but every step costs 1.
     const newGrid = grid.map((row) =>
-      row.map((node) => {
-        const newNode = { ...resetNode(node), isWeight: false, weight: 1 };
-        // If user picked weighted, randomly assign weights to 20% of nodes
-        if (graphType === "weighted" && !newNode.isStart && !newNode.isEnd && !newNode.isWall) {
-          if (Math.random() < 0.2) {
-            newNode.isWeight = true;
-            newNode.weight = Math.floor(Math.random() * 4) + 2; // Weight value 2, 3, 4, or 5
-          }
-        }
-        return newNode;
-      })
+      row.map((node) => ({
+        ...resetNode(node),
+        terrain: graphType === "weighted" ? node.terrain : null,
+      }))
     );
 
-    // Update state so viewer sees the weights
-    setGrid(newGrid);
-
     const startNode = newGrid[startPos.row][startPos.col];
     const endNode = newGrid[endPos.row][endPos.col];
 
-    let visitedNodesInOrder: NodeType[];
-    let nodesInShortestPathOrder: NodeType[];
+    timelineRef.current = recordTimeline(createSearch(createTopology(newGrid, movement, terrainPalette), startNode, endNode));
+    showPosition(0);
+    playTimeline();
+  };
 
-    if (algorithm === 'dijkstra') {
-      if (graphType === "weighted") {
-        visitedNodesInOrder = dijkstra(newGrid, startNode, endNode);
-        nodesInShortestPathOrder = getNodesInShortestPathOrder(endNode);
-      } else {
-        visitedNodesInOrder = bfs(newGrid, startNode, endNode);
-        nodesInShortestPathOrder = bfsGetPath(endNode);
-      }
-    } else {
-      visitedNodesInOrder = bfs(newGrid, startNode, endNode);
-      nodesInShortestPathOrder = bfsGetPath(endNode);
+  const createSearch = (topology: Topology, startNode: NodeType, endNode: NodeType): SearchGenerator => {
+    switch (algorithm) {
+      case 'dijkstra':
+        // Unweighted Dijkstra is BFS, except that 8-way diagonals still cost √2
+        return graphType === "weighted" || movement.model === '8-way'
+          ? dijkstra(topology, startNode, endNode)
+          : bfs(topology, startNode, endNode);
+      case 'astar':
+        return astar(topology, startNode, endNode, heuristic, heuristicWeight);
+      case 'greedy':
+        return greedyBestFirst(topology, startNode, endNode, heuristic);
+      case 'dfs':
+        return dfs(topology, startNode, endNode);
+      case 'dfs-recursive':
+        return dfsRecursive(topology, startNode, endNode);
+      case 'bidirectional-bfs':
+        return bidirectionalBfs(topology, startNode, endNode);
+      case 'bidirectional-dijkstra':
+        return bidirectionalDijkstra(topology, startNode, endNode);
+      default:
+        return bfs(topology, startNode, endNode);
     }
+  };
+
+  // Replays the generator's wall/carve operations on its starting canvas, one
+  // cell per tick. Stopping leaves the partly built maze as an editable grid.
+  const animateMaze = async ({ grid: mazeGrid, initialGrid, operationsInOrder, startNode, endNode }: MazeResult) => {
+    const runId = ++mazeRunRef.current;
+    const getDelay = () => Math.max(1, 101 - speedRef.current);
+    let workingGrid = initialGrid;
+    let walker: HTMLElement | null = null;
+
+    setIsRunning(true);
+    setGrid(workingGrid);
+    if (startNode) setStartPos(startNode);
+    if (endNode) setEndPos(endNode);
+
+    for (const { type, row, col } of operationsInOrder) {
+      await new Promise((resolve) => setTimeout(resolve, getDelay()));
+      if (mazeRunRef.current !== runId) break;
+
+      if (type === 'walk') {
+        walker?.classList.remove('node-walker-animation');
+        walker = getTraceElement(workingGrid[row][col]);
+        walker?.classList.add('node-walker-animation');
+        continue;
+      }
 
-    await animateAlgorithm(visitedNodesInOrder, nodesInShortestPathOrder);
+      workingGrid = workingGrid.map((r, rowIndex) =>
+        rowIndex !== row
+          ? r
+          : r.map((node) =>
+              node.col === col
+                ? { ...node, isWall: type === 'wall', terrain: type === 'wall' ? null : node.terrain }
+                : node
+            )
+      );
+      setGrid(workingGrid);
+    }
 
-    onStats(visitedNodesInOrder.length, nodesInShortestPathOrder.length);
+    walker?.classList.remove('node-walker-animation');
+    if (mazeRunRef.current === runId) setGrid(mazeGrid);
     setIsRunning(false);
   };
 
-  const animateAlgorithm = async (
-    visitedNodesInOrder: NodeType[],
-    nodesInShortestPathOrder: NodeType[]
-  ) => {
+  // Plays the recorded timeline from the current position until it ends. While
+  // paused the run stays active and just waits; seeking while a step is
+  // pending makes that step stale.
+  const playTimeline = async () => {
+    if (playingRef.current) return;
+    playingRef.current = true;
+    setIsRunning(true);
     const getDelay = () => Math.max(1, 101 - speedRef.current);
 
-    for (let i = 0; i < visitedNodesInOrder.length; i++) {
-      await new Promise((resolve) => setTimeout(resolve, getDelay()));
-      const node = visitedNodesInOrder[i];
-      const element = document.getElementById(`node-${node.row}-${node.col}`);
-      if (element && !node.isStart && !node.isEnd) {
-        element.classList.add('node-visited-animation');
+    while (timelineRef.current && positionRef.current < timelineRef.current.steps.length) {
+      if (pausedRef.current) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        continue;
       }
-      onStats(i + 1, 0);
+
+      const timeline = timelineRef.current;
+      const position = positionRef.current;
+      const step = timeline.steps[position];
+      let delay = getDelay();
+      if (step.kind === 'path') {
+        // Hold on the finished search for a moment before drawing the path
+        delay *= timeline.steps[position - 1]?.kind === 'search' ? 8 : 3;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+
+      if (pausedRef.current || timelineRef.current !== timeline || positionRef.current !== position) {
+        continue;
+      }
+      renderStep(step, true);
+      showPosition(position + 1);
     }
 
-    await new Promise((resolve) => setTimeout(resolve, getDelay() * 5));
+    playingRef.current = false;
+    setIsRunning(false);
+  };
 
-    for (let i = 0; i < nodesInShortestPathOrder.length; i++) {
-      await new Promise((resolve) => setTimeout(resolve, getDelay() * 3));
-      const node = nodesInShortestPathOrder[i];
-      const element = document.getElementById(`node-${node.row}-${node.col}`);
-      if (element && !node.isStart && !node.isEnd) {
-        element.classList.remove('node-visited-animation');
+  const getTraceElement = (node: NodeType) =>
+    node.isStart || node.isEnd ? null : document.getElementById(`node-${node.row}-${node.col}`);
+
+  const clearTrace = () => {
+    for (const element of document.querySelectorAll<HTMLElement>('[id^="node-"]')) {
+      element.classList.remove(...TRACE_CLASSES);
+    }
+  };
+
+  // Applies one step to the DOM. Pulses are skipped when fast-forwarding to a position.
+  const renderStep = (step: PlaybackStep, animate: boolean) => {
+    if (step.kind === 'path') {
+      const element = getTraceElement(step.node);
+      if (element && step.node !== timelineRef.current?.meetingNode) {
+        element.classList.remove(...TRACE_CLASSES);
         element.classList.add('node-path-animation');
       }
-      onStats(visitedNodesInOrder.length, i + 1);
+      return;
+    }
+
+    for (const event of step.events) {
+      switch (event.type) {
+        case 'enqueue':
+          getTraceElement(event.node)?.classList.add('node-frontier-animation');
+          break;
+        case 'relax':
+          if (event.decreaseKey && animate) {
+            const element = getTraceElement(event.to);
+            if (element) {
+              // Restart the pulse if this cell was already updated before
+              element.classList.remove('node-decrease-key-animation');
+              void element.offsetWidth;
+              element.classList.add('node-decrease-key-animation');
+            }
+          }
+          break;
+        case 'visit': {
+          const element = getTraceElement(event.node);
+          if (element) {
+            element.classList.remove('node-frontier-animation', 'node-decrease-key-animation');
+            element.classList.add(
+              event.side ? `node-visited-${event.side}-animation` : 'node-visited-animation'
+            );
+          }
+          break;
+        }
+        case 'call-enter':
+          getTraceElement(event.node)?.classList.add('node-stack-animation');
+          break;
+        case 'call-return':
+          getTraceElement(event.node)?.classList.remove('node-stack-animation');
+          break;
+        case 'meet':
+          getTraceElement(event.node)?.classList.add('node-meeting-animation');
+          break;
+      }
+    }
+  };
+
+  // Redraws the trace from scratch; used when stepping back or scrubbing
+  const renderTimelineAt = (position: number) => {
+    const timeline = timelineRef.current;
+    if (!timeline) return;
+    clearTrace();
+    for (let i = 0; i < position; i++) {
+      renderStep(timeline.steps[i], false);
     }
+    showPosition(position);
   };
 
+  const showPosition = (position: number) => {
+    const timeline = timelineRef.current;
+    positionRef.current = position;
+    onPlayback(position, timeline ? timeline.steps.length : 0);
+    if (timeline) {
+      onStats(timeline.stats[position].visited, timeline.stats[position].pathLength);
+    }
+  };
+
+  // Drops the recorded run without touching the DOM, so the partial trace stays
+  // on screen. The playback loop notices the missing timeline and exits.
+  const stopPlayback = () => {
+    timelineRef.current = null;
+    positionRef.current = 0;
+    onPlayback(0, 0);
+  };
+
+  const discardTimeline = () => {
+    timelineRef.current = null;
+    clearTrace();
+    showPosition(0);
+  };
+
+  if (movement.model === 'hex') {
+    // Odd rows shift half a cell right and rows overlap by a quarter of a
+    // cell height, so the pointy-topped cells interlock
+    return (
+      <div className="flex-1 flex items-center justify-center p-6 overflow-auto">
+        <div
+          className="bg-card/30 backdrop-blur-sm rounded-xl p-4 pb-5 shadow-2xl border border-border/30"
+          onMouseLeave={() => setMouseIsPressed(false)}
+        >
+          {grid.map((row, rowIndex) => (
+            <div
+              key={rowIndex}
+              className={cn('flex gap-0.5', rowIndex > 0 && '-mt-[5px]', rowIndex % 2 === 1 && 'pl-[13px]')}
+            >
+              {row.map((node, colIndex) => (
+                <GridNode
+                  key={`${rowIndex}-${colIndex}`}
+                  node={node}
+                  palette={terrainPalette}
+                  hex
+                  onMouseDown={handleMouseDown}
+                  onMouseEnter={handleMouseEnter}
+                  onMouseUp={handleMouseUp}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex-1 flex items-center justify-center p-6 overflow-auto">
       <div
@@ -303,6 +681,7 @@ const Grid = ({
             <GridNode
               key={`${rowIndex}-${colIndex}`}
               node={node}
+              palette={terrainPalette}
               onMouseDown={handleMouseDown}
               onMouseEnter={handleMouseEnter}
               onMouseUp={handleMouseUp}
@@ -1,49 +1,49 @@
 import { memo } from 'react';
 import { NodeType } from '@/types/Node';
+import { TerrainPalette } from '@/types/Terrain';
 import { cn } from '@/lib/utils';
-import { Play, Target, Anchor } from 'lucide-react'; // Added Anchor for a weight icon look
+import { Play, Target } from 'lucide-react';
 
 interface GridNodeProps {
   node: NodeType;
+  palette: TerrainPalette;
+  hex?: boolean;
   onMouseDown: (row: number, col: number) => void;
   onMouseEnter: (row: number, col: number) => void;
   onMouseUp: () => void;
 }
 
-const GridNode = memo(({ node, onMouseDown, onMouseEnter, onMouseUp }: GridNodeProps) => {
-  // Added isWeight and weight to the destructuring
-  const { row, col, isStart, isEnd, isWall, isVisited, isPath, isWeight, weight } = node;
+const GridNode = memo(({ node, palette, hex = false, onMouseDown, onMouseEnter, onMouseUp }: GridNodeProps) => {
+  const { row, col, isStart, isEnd, isWall, isVisited, isPath, terrain } = node;
 
   const getNodeClass = () => {
     if (isStart) return 'bg-node-start glow-success';
     if (isEnd) return 'bg-node-end glow-danger';
     if (isPath) return 'node-path-animation';
     if (isWall) return 'bg-node-wall node-wall-animation';
-    if (isWeight) return 'node-weight'; // Triggers purple color from your CSS
+    if (terrain) return 'node-terrain';
     if (isVisited) return 'node-visited-animation';
     return 'bg-node-default hover:bg-secondary';
   };
 
+  const terrainStyle =
+    terrain && !isWall && !isPath && !isStart && !isEnd ? { backgroundColor: palette[terrain].color } : undefined;
+
   return (
     <div
       id={`node-${row}-${col}`}
       className={cn(
-        'w-6 h-6 border border-border/30 transition-colors cursor-pointer flex items-center justify-center relative',
+        'w-6 transition-colors cursor-pointer flex items-center justify-center relative',
+        hex ? 'h-7 node-hex' : 'h-6 border border-border/30',
         getNodeClass()
       )}
+      style={terrainStyle}
       onMouseDown={() => onMouseDown(row, col)}
       onMouseEnter={() => onMouseEnter(row, col)}
       onMouseUp={onMouseUp}
     >
       {isStart && <Play className="w-3 h-3 text-background" fill="currentColor" />}
       {isEnd && <Target className="w-3 h-3 text-background" />}
-      
-      {/* ADDED: Show weight value inside the purple box */}
-      {isWeight && !isStart && !isEnd && (
-        <span className="text-[10px] font-bold text-white pointer-events-none select-none">
-          {weight}
-        </span>
-      )}
     </div>
   );
 });
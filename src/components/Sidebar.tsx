@@ -1,5 +1,7 @@
-import { Clock, Database, Zap, Info, ChevronDown, ChevronUp, Activity } from 'lucide-react';
+import { Clock, Database, Zap, Info, ChevronDown, ChevronUp, Activity, AlertTriangle } from 'lucide-react';
 import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { MAX_TERRAIN_COST, TerrainPalette, TerrainType, terrainLabels } from '@/types/Terrain';
 import { cn } from '@/lib/utils';
 
 interface AlgorithmInfo {
@@ -8,6 +10,7 @@ interface AlgorithmInfo {
   spaceComplexity: string;
   description: string;
   details: string[];
+  warning?: string;
 }
 
 const algorithms: Record<string, AlgorithmInfo> = {
@@ -37,6 +40,87 @@ const algorithms: Record<string, AlgorithmInfo> = {
       'Great for shortest path problems',
     ],
   },
+  astar: {
+    name: 'A* Search',
+    timeComplexity: 'O((V + E) log V)',
+    spaceComplexity: 'O(V)',
+    description:
+      'A* extends Dijkstra with a heuristic estimate of the remaining distance, steering the search towards the target.',
+    details: [
+      'Informed search: f(n) = g(n) + w · h(n)',
+      'Shortest path at w = 1 with an admissible heuristic (not Manhattan on 8-way or hex)',
+      'Weights above 1 trade optimality for speed',
+      'Respects weighted cell costs like Dijkstra',
+    ],
+  },
+  greedy: {
+    name: 'Greedy Best-First Search',
+    timeComplexity: 'O((V + E) log V)',
+    spaceComplexity: 'O(V)',
+    description:
+      'Greedy best-first search always expands the node that looks closest to the target, ignoring the cost paid so far.',
+    details: [
+      'Orders the frontier by h(n) only',
+      'Usually reaches the target quickly',
+      'Walks straight through expensive weighted cells',
+      'Uses a priority queue keyed on the heuristic',
+    ],
+    warning: 'Does not guarantee the shortest path.',
+  },
+  dfs: {
+    name: 'Depth-First Search (Stack)',
+    timeComplexity: 'O(V + E)',
+    spaceComplexity: 'O(V)',
+    description:
+      'DFS follows one branch as deep as it can before backtracking, using an explicit stack (LIFO).',
+    details: [
+      'Uses a stack (LIFO)',
+      'Finds a path, rarely the shortest one',
+      'Ignores weighted cell costs',
+      'Contrast with BFS level-by-level expansion',
+    ],
+    warning: 'Does not guarantee the shortest path.',
+  },
+  'dfs-recursive': {
+    name: 'Depth-First Search (Recursive)',
+    timeComplexity: 'O(V + E)',
+    spaceComplexity: 'O(V)',
+    description:
+      'The same depth-first order expressed as recursion. Highlighted cells are calls still on the call stack.',
+    details: [
+      'The call stack replaces the explicit stack',
+      'Cells leave the stack when their call returns',
+      'Recursion depth can reach V on open grids',
+      'Finds a path, rarely the shortest one',
+    ],
+    warning: 'Does not guarantee the shortest path.',
+  },
+  'bidirectional-bfs': {
+    name: 'Bidirectional BFS',
+    timeComplexity: 'O(V + E)',
+    spaceComplexity: 'O(V)',
+    description:
+      'Runs BFS from the start and from the end at the same time and stops as soon as the two frontiers touch.',
+    details: [
+      'Optimal for unweighted graphs',
+      'Expands the smaller frontier one level at a time',
+      'Roughly halves the explored area on open grids',
+      'Path is stitched together at the meeting node',
+    ],
+  },
+  'bidirectional-dijkstra': {
+    name: 'Bidirectional Dijkstra',
+    timeComplexity: 'O((V + E) log V)',
+    spaceComplexity: 'O(V)',
+    description:
+      'Runs Dijkstra forward from the start and backward from the end, stopping once neither frontier can improve the best meeting.',
+    details: [
+      'Guarantees the shortest path',
+      'Stops when both frontier minimums sum to the best route',
+      'Works with weighted graphs',
+      'Path is stitched together at the meeting node',
+    ],
+  },
 };
 
 interface SidebarProps {
@@ -44,12 +128,24 @@ interface SidebarProps {
   isRunning: boolean;
   visitedCount: number;
   pathLength: number;
+  terrainPalette: TerrainPalette;
+  onTerrainPaletteChange: (palette: TerrainPalette) => void;
 }
 
-const Sidebar = ({ currentAlgorithm, isRunning, visitedCount, pathLength }: SidebarProps) => {
+const Sidebar = ({
+  currentAlgorithm,
+  isRunning,
+  visitedCount,
+  pathLength,
+  terrainPalette,
+  onTerrainPaletteChange,
+}: SidebarProps) => {
   const [isExpanded, setIsExpanded] = useState(true);
   const algo = algorithms[currentAlgorithm];
 
+  const updateTerrain = (terrain: TerrainType, change: Partial<TerrainPalette[TerrainType]>) =>
+    onTerrainPaletteChange({ ...terrainPalette, [terrain]: { ...terrainPalette[terrain], ...change } });
+
   return (
     <div className="w-80 bg-card/50 backdrop-blur-md border-r border-border/50 h-full overflow-y-auto animate-slide-in-left">
       <div className="p-6">
@@ -92,6 +188,12 @@ const Sidebar = ({ currentAlgorithm, isRunning, visitedCount, pathLength }: Side
           <div className="btn-glass rounded-lg p-4">
             <h3 className="text-lg font-semibold text-foreground mb-2">{algo.name}</h3>
             <p className="text-sm text-muted-foreground leading-relaxed">{algo.description}</p>
+            {algo.warning && (
+              <div className="flex items-center gap-2 mt-3 rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2">
+                <AlertTriangle className="w-4 h-4 text-destructive shrink-0" />
+                <span className="text-sm font-medium text-destructive">{algo.warning}</span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -169,9 +271,29 @@ const Sidebar = ({ currentAlgorithm, isRunning, visitedCount, pathLength }: Side
               <div className="w-5 h-5 rounded bg-node-wall" />
               <span className="text-sm text-muted-foreground">Wall</span>
             </div>
+            <div className="flex items-center gap-3">
+              <div className="w-5 h-5 rounded bg-node-frontier/60" />
+              <span className="text-sm text-muted-foreground">Frontier (Open Set)</span>
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="w-5 h-5 rounded bg-node-decrease-key" />
+              <span className="text-sm text-muted-foreground">Distance Improved (Decrease-Key)</span>
+            </div>
             <div className="flex items-center gap-3">
               <div className="w-5 h-5 rounded bg-node-visited" />
-              <span className="text-sm text-muted-foreground">Visited</span>
+              <span className="text-sm text-muted-foreground">Visited (Closed Set)</span>
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="w-5 h-5 rounded bg-node-visited-end" />
+              <span className="text-sm text-muted-foreground">Visited from End (Bidirectional)</span>
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="w-5 h-5 rounded bg-node-meeting" />
+              <span className="text-sm text-muted-foreground">Meeting Node</span>
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="w-5 h-5 rounded bg-node-stack" />
+              <span className="text-sm text-muted-foreground">Call Stack (Recursive DFS)</span>
             </div>
             <div className="flex items-center gap-3">
               <div className="w-5 h-5 rounded bg-node-path glow-accent" />
@@ -180,6 +302,46 @@ const Sidebar = ({ currentAlgorithm, isRunning, visitedCount, pathLength }: Side
           </div>
         </div>
 
+        {/* Terrain palette: colour swatches and entry costs are editable */}
+        <div className="mt-6">
+          <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider mb-3">
+            Terrain
+          </h2>
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <div className="w-5 h-5 rounded bg-node-default border border-border/50" />
+              <span className="text-sm text-muted-foreground flex-1">Plain</span>
+              <span className="w-16 text-center text-sm font-mono text-muted-foreground">1</span>
+            </div>
+            {(Object.keys(terrainLabels) as TerrainType[]).map((terrain) => (
+              <div key={terrain} className="flex items-center gap-3">
+                <input
+                  type="color"
+                  value={terrainPalette[terrain].color}
+                  onChange={(event) => updateTerrain(terrain, { color: event.target.value })}
+                  disabled={isRunning}
+                  aria-label={`${terrainLabels[terrain]} colour`}
+                  className="w-5 h-5 rounded cursor-pointer border-0 bg-transparent p-0"
+                />
+                <span className="text-sm text-muted-foreground flex-1">{terrainLabels[terrain]}</span>
+                <Input
+                  type="number"
+                  value={terrainPalette[terrain].cost}
+                  onChange={(event) => {
+                    const cost = Math.round(Number(event.target.value));
+                    if (cost >= 1) updateTerrain(terrain, { cost: Math.min(cost, MAX_TERRAIN_COST) });
+                  }}
+                  min={1}
+                  max={MAX_TERRAIN_COST}
+                  disabled={isRunning}
+                  aria-label={`${terrainLabels[terrain]} cost`}
+                  className="w-16 h-7 text-xs font-mono btn-glass border-border/50"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Status Indicator */}
         {isRunning && (
           <div className="mt-6 btn-glass-primary rounded-lg p-4">
@@ -0,0 +1,54 @@
+import { NodeType } from '@/types/Node';
+import { SearchEvent, SearchGenerator } from '@/algorithms/events';
+
+// One tick of playback. A search step is an expansion (a visit, or a
+// recursive call returning) together with the frontier and relaxation updates
+// it caused; a path step reveals one cell of the final path.
+export type PlaybackStep =
+  | { kind: 'search'; events: SearchEvent[] }
+  | { kind: 'path'; node: NodeType };
+
+export interface SearchTimeline {
+  steps: PlaybackStep[];
+  // stats[i] describes the grid after the first i steps have been applied
+  stats: { visited: number; pathLength: number }[];
+  meetingNode: NodeType | null;
+}
+
+const isTimedEvent = (event: SearchEvent) =>
+  event.type === 'visit' || event.type === 'call-return';
+
+// Runs a search to completion and records it, so it can be replayed from any position
+export const recordTimeline = (search: SearchGenerator): SearchTimeline => {
+  const steps: PlaybackStep[] = [];
+  let events: SearchEvent[] = [];
+  let path: NodeType[] = [];
+  let meetingNode: NodeType | null = null;
+
+  for (const event of search) {
+    if (isTimedEvent(event) && events.some(isTimedEvent)) {
+      steps.push({ kind: 'search', events });
+      events = [];
+    }
+    if (event.type === 'path-found') path = event.path;
+    if (event.type === 'meet') meetingNode = event.node;
+    events.push(event);
+  }
+  if (events.length > 0) steps.push({ kind: 'search', events });
+
+  for (const node of path) {
+    steps.push({ kind: 'path', node });
+  }
+
+  const stats: SearchTimeline['stats'] = [{ visited: 0, pathLength: 0 }];
+  for (const step of steps) {
+    const { visited, pathLength } = stats[stats.length - 1];
+    stats.push(
+      step.kind === 'path'
+        ? { visited, pathLength: pathLength + 1 }
+        : { visited: visited + step.events.filter((e) => e.type === 'visit').length, pathLength }
+    );
+  }
+
+  return { steps, stats, meetingNode };
+};
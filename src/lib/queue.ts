@@ -0,0 +1,33 @@
+// FIFO queue with O(1) amortized dequeue. Array.shift() re-indexes the whole
+// array, so a head pointer is advanced instead and the consumed prefix is
+// dropped once it makes up half of the storage.
+export class Queue<T> {
+  private items: T[] = [];
+  private head = 0;
+
+  get size(): number {
+    return this.items.length - this.head;
+  }
+
+  isEmpty(): boolean {
+    return this.size === 0;
+  }
+
+  enqueue(item: T): void {
+    this.items.push(item);
+  }
+
+  dequeue(): T | undefined {
+    if (this.isEmpty()) return undefined;
+
+    const item = this.items[this.head];
+    this.head++;
+
+    if (this.head * 2 >= this.items.length) {
+      this.items = this.items.slice(this.head);
+      this.head = 0;
+    }
+
+    return item;
+  }
+}
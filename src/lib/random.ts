@@ -0,0 +1,30 @@
+// A source of uniform numbers in [0, 1), interchangeable with Math.random
+export type Random = () => number;
+
+// Mulberry32: a small, fast 32-bit generator. The same seed always yields the
+// same sequence, which is what makes generated maps reproducible.
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Seeds stay short enough to quote, e.g. "maze #4821"
+export const MAX_SEED = 99999;
+
+export const randomSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
+
+// A generator's seed, and whether the next generate keeps it instead of rolling a new one
+export interface SeedSettings {
+  value: number;
+  locked: boolean;
+}
+
+export const createSeedSettings = (): SeedSettings => ({ value: randomSeed(), locked: false });
+
+export const rollSeed = (seed: SeedSettings): SeedSettings => (seed.locked ? seed : { ...seed, value: randomSeed() });
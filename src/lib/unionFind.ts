@@ -0,0 +1,31 @@
+// Disjoint-set forest over the integers 0..size-1, with path halving and
+// union by size, so find and union run in near-constant amortized time.
+export class UnionFind {
+  private parent: number[];
+  private setSize: number[];
+
+  constructor(size: number) {
+    this.parent = Array.from({ length: size }, (_, i) => i);
+    this.setSize = Array(size).fill(1);
+  }
+
+  find(x: number): number {
+    while (this.parent[x] !== x) {
+      this.parent[x] = this.parent[this.parent[x]];
+      x = this.parent[x];
+    }
+    return x;
+  }
+
+  // Merges the sets containing a and b; returns false if they were already joined
+  union(a: number, b: number): boolean {
+    let rootA = this.find(a);
+    let rootB = this.find(b);
+    if (rootA === rootB) return false;
+
+    if (this.setSize[rootA] < this.setSize[rootB]) [rootA, rootB] = [rootB, rootA];
+    this.parent[rootB] = rootA;
+    this.setSize[rootA] += this.setSize[rootB];
+    return true;
+  }
+}
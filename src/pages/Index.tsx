@@ -2,40 +2,83 @@ import { useState, useCallback } from 'react';
 import Grid from '@/components/Grid';
 import Sidebar from '@/components/Sidebar';
 import Controls from '@/components/Controls';
+import { HeuristicType, defaultHeuristics, isAdmissible } from '@/algorithms/heuristics';
+import { DEFAULT_MOVEMENT } from '@/algorithms/movement';
+import { unweightedAlgorithms } from '@/algorithms/catalog';
+import { DEFAULT_WEIGHT_SETTINGS } from '@/algorithms/weights';
+import { DEFAULT_MAZE_SETTINGS } from '@/algorithms/maze';
+import { DrawMode } from '@/types/Brush';
+import { DEFAULT_TERRAIN_PALETTE, TerrainType } from '@/types/Terrain';
+import { createSeedSettings, rollSeed } from '@/lib/random';
 
 const Index = () => {
   const [algorithm, setAlgorithm] = useState('dijkstra');
   // ADDED: State to track if the graph is weighted or unweighted
   const [graphType, setGraphType] = useState<"weighted" | "unweighted" | null>(null);
+  const [heuristic, setHeuristic] = useState<HeuristicType>('manhattan');
+  const [heuristicWeight, setHeuristicWeight] = useState(1);
+  const [movement, setMovement] = useState(DEFAULT_MOVEMENT);
   const [isRunning, setIsRunning] = useState(false);
   const [speed, setSpeed] = useState(50);
+  const [weightSettings, setWeightSettings] = useState(DEFAULT_WEIGHT_SETTINGS);
+  const [mazeSettings, setMazeSettings] = useState(DEFAULT_MAZE_SETTINGS);
+  // Seeds of the last generated maze and terrain; unless locked, each generate rolls a new one
+  const [mazeSeed, setMazeSeed] = useState(createSeedSettings);
+  const [terrainSeed, setTerrainSeed] = useState(createSeedSettings);
+  const [drawMode, setDrawMode] = useState<DrawMode>('wall');
+  const [brushTerrain, setBrushTerrain] = useState<TerrainType>('mud');
+  const [terrainPalette, setTerrainPalette] = useState(DEFAULT_TERRAIN_PALETTE);
   const [visitedCount, setVisitedCount] = useState(0);
   const [pathLength, setPathLength] = useState(0);
 
+  // Playback state for the recorded search timeline
+  const [isPaused, setIsPaused] = useState(false);
+  const [playback, setPlayback] = useState({ position: 0, length: 0 });
+  const [seekTarget, setSeekTarget] = useState<number | null>(null);
+
   // Trigger states
   const [triggerVisualize, setTriggerVisualize] = useState(false);
   const [triggerClear, setTriggerClear] = useState(false);
   const [triggerReset, setTriggerReset] = useState(false);
   const [triggerMaze, setTriggerMaze] = useState(false);
+  const [triggerStop, setTriggerStop] = useState(false);
+  const [triggerWeights, setTriggerWeights] = useState(false);
 
   const handleStats = useCallback((visited: number, path: number) => {
     setVisitedCount(visited);
     setPathLength(path);
   }, []);
 
+  const handlePlayback = useCallback((position: number, length: number) => {
+    setPlayback({ position, length });
+  }, []);
+
+  const handleSeekComplete = useCallback(() => {
+    setSeekTarget(null);
+  }, []);
+
+  // Stepping or scrubbing freezes playback on the chosen step
+  const handleSeek = (position: number) => {
+    setIsPaused(true);
+    setSeekTarget(position);
+  };
+
   const handleActionComplete = useCallback(() => {
     setTriggerVisualize(false);
     setTriggerClear(false);
     setTriggerReset(false);
     setTriggerMaze(false);
+    setTriggerStop(false);
+    setTriggerWeights(false);
   }, []);
 
   // ADDED: Logic to check if user can visualize
   const handleVisualizeClick = () => {
-    if (algorithm === "dijkstra" && !graphType) {
+    if (!graphType) {
       alert("Please select Weighted or Unweighted first!");
       return;
     }
+    setIsPaused(false);
     setTriggerVisualize(true);
   };
 
@@ -47,6 +90,8 @@ const Index = () => {
         isRunning={isRunning}
         visitedCount={visitedCount}
         pathLength={pathLength}
+        terrainPalette={terrainPalette}
+        onTerrainPaletteChange={setTerrainPalette}
       />
 
       {/* Main Content */}
@@ -58,34 +103,85 @@ const Index = () => {
           setGraphType={setGraphType} // Passing the setter down
           onAlgorithmChange={(algo) => {
             setAlgorithm(algo);
-            // BFS is always unweighted, so we set it automatically
-            if (algo === "bfs") {
+            // BFS and DFS variants are always unweighted, so we set it automatically
+            if (unweightedAlgorithms.includes(algo)) {
               setGraphType("unweighted");
             } else {
-              setGraphType(null); // Force user to choose for Dijkstra
+              setGraphType(null); // Force user to choose for the cost-aware algorithms
             }
           }}
+          heuristic={heuristic}
+          onHeuristicChange={setHeuristic}
+          heuristicWeight={heuristicWeight}
+          onHeuristicWeightChange={(val) => setHeuristicWeight(val[0])}
+          movement={movement}
+          onMovementChange={(next) => {
+            setMovement(next);
+            if (!isAdmissible(heuristic, next.model)) setHeuristic(defaultHeuristics[next.model]);
+          }}
           onVisualize={handleVisualizeClick} // Using our check function
+          onStop={() => setTriggerStop(true)}
           onClear={() => setTriggerClear(true)}
           onReset={() => setTriggerReset(true)}
-          onGenerateMaze={() => setTriggerMaze(true)}
+          onGenerateMaze={() => {
+            setMazeSeed(rollSeed);
+            setTriggerMaze(true);
+          }}
+          mazeSettings={mazeSettings}
+          onMazeSettingsChange={setMazeSettings}
+          weightSettings={weightSettings}
+          onWeightSettingsChange={setWeightSettings}
+          onRandomizeWeights={() => {
+            setTerrainSeed(rollSeed);
+            setTriggerWeights(true);
+          }}
+          mazeSeed={mazeSeed}
+          onMazeSeedChange={setMazeSeed}
+          terrainSeed={terrainSeed}
+          onTerrainSeedChange={setTerrainSeed}
+          drawMode={drawMode}
+          onDrawModeChange={setDrawMode}
+          brushTerrain={brushTerrain}
+          onBrushTerrainChange={setBrushTerrain}
+          terrainPalette={terrainPalette}
           isRunning={isRunning}
           speed={speed}
           onSpeedChange={(val) => setSpeed(val[0])}
+          isPaused={isPaused}
+          onTogglePause={() => setIsPaused(!isPaused)}
+          playbackPosition={playback.position}
+          playbackLength={playback.length}
+          onSeek={handleSeek}
         />
 
         {/* Grid */}
         <Grid
           algorithm={algorithm}
           graphType={graphType} // Pass this to Grid so it knows how to run Dijkstra
+          heuristic={heuristic}
+          heuristicWeight={heuristicWeight}
+          movement={movement}
           speed={speed}
           isRunning={isRunning}
           setIsRunning={setIsRunning}
           onStats={handleStats}
+          isPaused={isPaused}
+          seekTarget={seekTarget}
+          onSeekComplete={handleSeekComplete}
+          onPlayback={handlePlayback}
           triggerVisualize={triggerVisualize}
           triggerClear={triggerClear}
           triggerReset={triggerReset}
           triggerMaze={triggerMaze}
+          triggerStop={triggerStop}
+          triggerWeights={triggerWeights}
+          weightSettings={weightSettings}
+          mazeSettings={mazeSettings}
+          mazeSeed={mazeSeed.value}
+          terrainSeed={terrainSeed.value}
+          drawMode={drawMode}
+          brushTerrain={brushTerrain}
+          terrainPalette={terrainPalette}
           onActionComplete={handleActionComplete}
         />
       </div>
@@ -0,0 +1,2 @@
+// What a click or drag on the grid paints
+export type DrawMode = 'wall' | 'terrain' | 'erase';
@@ -1,3 +1,5 @@
+import { TerrainType } from './Terrain';
+
 export interface NodeType {
   row: number;
   col: number;
@@ -6,9 +8,7 @@ export interface NodeType {
   isWall: boolean;
   isVisited: boolean;
   isPath: boolean;
-  // ADDED: properties to handle weights
-  isWeight: boolean; 
-  weight: number;    
+  terrain: TerrainType | null; // null is plain ground
   distance: number;
   previousNode: NodeType | null;
 }
@@ -21,9 +21,7 @@ export const createNode = (row: number, col: number): NodeType => ({
   isWall: false,
   isVisited: false,
   isPath: false,
-  // ADDED: default values for new nodes
-  isWeight: false,
-  weight: 1, // Default weight is 1 (normal cost)
+  terrain: null,
   distance: Infinity,
   previousNode: null,
 });
@@ -34,6 +32,6 @@ export const resetNode = (node: NodeType): NodeType => ({
   isPath: false,
   distance: Infinity,
   previousNode: null,
-  // Note: We do NOT reset isWeight or weight here 
-  // so that the weights stay on the grid after the animation finishes.
+  // Note: terrain is NOT reset here
+  // so that it stays on the grid after the animation finishes.
 });
@@ -0,0 +1,30 @@
+// Ground a cell can be painted with. A cell without terrain is plain ground
+// and costs 1 to enter.
+export type TerrainType = 'road' | 'grass' | 'sand' | 'forest' | 'mud' | 'water';
+
+export interface TerrainSpec {
+  cost: number; // cost of entering the cell, at least 1 so every heuristic stays admissible
+  color: string; // hex colour the cell is painted with
+}
+
+export type TerrainPalette = Record<TerrainType, TerrainSpec>;
+
+export const DEFAULT_TERRAIN_PALETTE: TerrainPalette = {
+  road: { cost: 1, color: '#a8a29e' },
+  grass: { cost: 2, color: '#65a30d' },
+  sand: { cost: 3, color: '#eab308' },
+  forest: { cost: 4, color: '#166534' },
+  mud: { cost: 6, color: '#92400e' },
+  water: { cost: 9, color: '#2563eb' },
+};
+
+export const terrainLabels: Record<TerrainType, string> = {
+  road: 'Road',
+  grass: 'Grass',
+  sand: 'Sand',
+  forest: 'Forest',
+  mud: 'Mud',
+  water: 'Water',
+};
+
+export const MAX_TERRAIN_COST = 20;
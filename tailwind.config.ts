@@ -66,6 +66,13 @@ export default {
           default: "hsl(var(--node-default))",
           wall: "hsl(var(--node-wall))",
           visited: "hsl(var(--node-visited))",
+          frontier: "hsl(var(--node-frontier))",
+          "decrease-key": "hsl(var(--node-decrease-key))",
+          stack: "hsl(var(--node-stack))",
+          "visited-start": "hsl(var(--node-visited-start))",
+          "visited-end": "hsl(var(--node-visited-end))",
+          meeting: "hsl(var(--node-meeting))",
+          walker: "hsl(var(--node-walker))",
           path: "hsl(var(--node-path))",
           start: "hsl(var(--node-start))",
           end: "hsl(var(--node-end))",